@@ -1,5 +1,6 @@
+import { ResponseInputItem } from 'openai/resources/responses/responses';
 import { getDatabaseAdapter } from './database';
-import { DailyLimit } from './database/adapter';
+import { DailyLimit, TurnItems } from './database/adapter';
 
 // ============================================================
 // Types
@@ -23,7 +24,7 @@ export type User = {
 export type Message = {
   id: string;
   chatId: string;
-  sender: 'user' | 'agent';
+  sender: 'user' | 'agent' | 'system';
   text: string;
   timestamp: string;
   entryId?: string;
@@ -32,6 +33,11 @@ export type Message = {
   tokensUsed?: number;
   bookIds?: string[]; // Store book IDs from displayBooks function
   bookCatalogs?: Record<string, string>; // Map of bookId -> catalogId for each displayed book
+  parentMessageId?: string; // Message this one was edited or regenerated from
+  branchId?: string; // Set once the message was superseded, shared by messages superseded together
+  active?: boolean; // Superseded messages are kept as alternatives but are not part of the conversation
+  model?: string; // Model that answered the turn, for cost analysis
+  promptVersion?: string; // System prompt version the agent message was generated with
 };
 
 // ============================================================
@@ -138,9 +144,9 @@ export async function createChat(
  */
 export async function logMessage(
   chatId: string,
-  sender: 'user' | 'agent',
+  sender: 'user' | 'agent' | 'system',
   text: string,
-  opts?: { entryId?: string; msg_id?: string; userId?: string; tokensUsed?: number; bookIds?: string[]; bookCatalogs?: Record<string, string> }
+  opts?: { entryId?: string; msg_id?: string; userId?: string; tokensUsed?: number; bookIds?: string[]; bookCatalogs?: Record<string, string>; parentMessageId?: string; model?: string; promptVersion?: string }
 ): Promise<Message | null> {
   const db = getDatabaseAdapter();
   return db.logMessage(chatId, sender, text, opts);
@@ -156,10 +162,36 @@ export async function updateMessageTokens(messageId: string, tokensUsed: number)
 
 /**
  * Get all messages in a chat
+ * Superseded (edited or regenerated) messages are only returned with includeInactive
  */
-export async function getChatHistory(chatId: string): Promise<Message[]> {
+export async function getChatHistory(chatId: string, includeInactive = false): Promise<Message[]> {
   const db = getDatabaseAdapter();
-  return db.getChatHistory(chatId);
+  return db.getChatHistory(chatId, includeInactive);
+}
+
+/**
+ * Move a message and every active message after it off the active thread
+ * Returns the branch id they are kept under, or null if the message is not active in the chat
+ */
+export async function supersedeMessages(chatId: string, fromMessageId: string): Promise<string | null> {
+  const db = getDatabaseAdapter();
+  return db.supersedeMessages(chatId, fromMessageId);
+}
+
+/**
+ * Store the raw OpenAI items of a turn, keyed by the user message that started it
+ */
+export async function saveTurnItems(chatId: string, messageId: string, items: ResponseInputItem[]): Promise<void> {
+  const db = getDatabaseAdapter();
+  return db.saveTurnItems(chatId, messageId, items);
+}
+
+/**
+ * Get the stored turn items of a chat, in turn order
+ */
+export async function getTurnItems(chatId: string): Promise<TurnItems[]> {
+  const db = getDatabaseAdapter();
+  return db.getTurnItems(chatId);
 }
 
 /**
@@ -213,9 +245,9 @@ export async function getUserMessagesInChat(chatId: string, userId: string): Pro
 /**
  * Get full chat history (both user and agent messages)
  */
-export async function getFullChatHistory(chatId: string): Promise<Message[]> {
+export async function getFullChatHistory(chatId: string, includeInactive = false): Promise<Message[]> {
   const db = getDatabaseAdapter();
-  return db.getFullChatHistory(chatId);
+  return db.getFullChatHistory(chatId, includeInactive);
 }
 
 /**
@@ -250,6 +282,9 @@ export default {
   createChat,
   logMessage,
   getChatHistory,
+  supersedeMessages,
+  saveTurnItems,
+  getTurnItems,
   clearChatHistory,
   getChatsByUser,
   getUserMessagesInChat,
@@ -2,6 +2,7 @@
  * Database Adapter Interface
  * Defines the contract for both local and postgres storage
  */
+import { ResponseInputItem } from 'openai/resources/responses/responses';
 import { User, Message } from '../accounts';
 
 export interface DailyLimit {
@@ -33,6 +34,29 @@ export interface ChatWithStats {
   totalTokens: number;
 }
 
+export interface ChatSessionState {
+  chatId: string;
+  userId: string;
+  entryId: string | null;
+  catalogId: string | null;
+  chatHistory: ResponseInputItem[];
+  entryCatalogs?: Record<string, string>; // entryId -> catalogId of the entries seen in the chat
+  queueOffset: number; // Next message queue index, keeps SSE event ids increasing across replicas
+  updatedAt?: string;
+}
+
+// Raw OpenAI items of one chat turn, replayed as they are when the chat is resumed
+export interface TurnItems {
+  messageId: string; // User message that started the turn
+  items: ResponseInputItem[]; // From the user message to the final answer
+}
+
+export interface PromptActivation {
+  version: string;
+  activatedBy: string | null;
+  activatedAt: string;
+}
+
 export interface DatabaseAdapter {
   // Initialize the database
   init(): Promise<void>;
@@ -51,17 +75,35 @@ export interface DatabaseAdapter {
 
   // Message/Chat operations
   createChat(chatId: string, userId: string, title?: string): Promise<{ chatId: string; userId: string; startedAt: string } | null>;
-  logMessage(chatId: string, sender: 'user' | 'agent', text: string, opts?: { entryId?: string; msg_id?: string; userId?: string; tokensUsed?: number; bookIds?: string[]; bookCatalogs?: Record<string, string> }): Promise<Message | null>;
+  logMessage(chatId: string, sender: 'user' | 'agent' | 'system', text: string, opts?: { entryId?: string; msg_id?: string; userId?: string; tokensUsed?: number; bookIds?: string[]; bookCatalogs?: Record<string, string>; parentMessageId?: string; model?: string; promptVersion?: string }): Promise<Message | null>;
   updateMessageTokens(messageId: string, tokensUsed: number): Promise<Message | null>;
-  getChatHistory(chatId: string): Promise<Message[]>;
+  getChatHistory(chatId: string, includeInactive?: boolean): Promise<Message[]>;
+  supersedeMessages(chatId: string, fromMessageId: string): Promise<string | null>;
   clearChatHistory(chatId: string): Promise<void>;
   getChatsByUser(userId: string): Promise<{ chatId: string; startedAt?: string }[]>;
   getChatsWithStatsByUser(userId: string): Promise<ChatWithStats[]>;
   getUserMessagesInChat(chatId: string, userId: string): Promise<Message[]>;
-  getFullChatHistory(chatId: string): Promise<Message[]>;
+  getFullChatHistory(chatId: string, includeInactive?: boolean): Promise<Message[]>;
   getAllChatIds(): Promise<string[]>;
   getChatCount(): Promise<number>;
 
+  // Turn item operations
+  saveTurnItems(chatId: string, messageId: string, items: ResponseInputItem[]): Promise<void>;
+  getTurnItems(chatId: string): Promise<TurnItems[]>;
+
+  // Session state operations
+  saveSessionState(state: ChatSessionState): Promise<void>;
+  getSessionState(chatId: string): Promise<ChatSessionState | null>;
+  deleteSessionState(chatId: string): Promise<void>;
+
+  // Chat turn lock operations, shared by all replicas using the same database
+  acquireChatLock(chatId: string, owner: string, ttlMs: number): Promise<boolean>;
+  releaseChatLock(chatId: string, owner: string): Promise<void>;
+
+  // Prompt version operations
+  getActivePromptVersion(): Promise<PromptActivation | null>;
+  activatePromptVersion(version: string, activatedBy: string | null): Promise<PromptActivation>;
+
   // Daily limit operations
   getDailyLimit(userId: string, date: string): Promise<DailyLimit | null>;
   listDailyLimits(userId?: string, date?: string): Promise<DailyLimit[]>;
@@ -3,8 +3,9 @@
  * Uses local in-memory storage with daily limits support
  */
 import { v4 as uuidv4 } from 'uuid';
+import { ResponseInputItem } from 'openai/resources/responses/responses';
 import { User, Message } from '../../accounts';
-import { DatabaseAdapter, DailyLimit, UserStats, ChatWithStats } from '../adapter';
+import { DatabaseAdapter, DailyLimit, UserStats, ChatWithStats, ChatSessionState, PromptActivation, TurnItems } from '../adapter';
 import * as localStore from '../localStore';
 
 export class LocalDatabaseAdapter implements DatabaseAdapter {
@@ -73,9 +74,9 @@ export class LocalDatabaseAdapter implements DatabaseAdapter {
 
   async logMessage(
     chatId: string,
-    sender: 'user' | 'agent',
+    sender: 'user' | 'agent' | 'system',
     text: string,
-    opts?: { entryId?: string; msg_id?: string; userId?: string; tokensUsed?: number; bookIds?: string[]; bookCatalogs?: Record<string, string> }
+    opts?: { entryId?: string; msg_id?: string; userId?: string; tokensUsed?: number; bookIds?: string[]; bookCatalogs?: Record<string, string>; parentMessageId?: string; model?: string; promptVersion?: string }
   ): Promise<Message | null> {
     return localStore.logMessageLocal(chatId, sender, text, opts);
   }
@@ -84,8 +85,12 @@ export class LocalDatabaseAdapter implements DatabaseAdapter {
     return localStore.updateMessageTokensLocal(messageId, tokensUsed);
   }
 
-  async getChatHistory(chatId: string): Promise<Message[]> {
-    return localStore.getChatHistoryLocal(chatId);
+  async getChatHistory(chatId: string, includeInactive = false): Promise<Message[]> {
+    return localStore.getChatHistoryLocal(chatId, includeInactive);
+  }
+
+  async supersedeMessages(chatId: string, fromMessageId: string): Promise<string | null> {
+    return localStore.supersedeMessagesLocal(chatId, fromMessageId);
   }
 
   async clearChatHistory(chatId: string): Promise<void> {
@@ -104,8 +109,8 @@ export class LocalDatabaseAdapter implements DatabaseAdapter {
     return localStore.getUserMessagesInChatLocal(chatId, userId);
   }
 
-  async getFullChatHistory(chatId: string): Promise<Message[]> {
-    return localStore.getFullChatHistoryLocal(chatId);
+  async getFullChatHistory(chatId: string, includeInactive = false): Promise<Message[]> {
+    return localStore.getFullChatHistoryLocal(chatId, includeInactive);
   }
 
   async getAllChatIds(): Promise<string[]> {
@@ -116,6 +121,46 @@ export class LocalDatabaseAdapter implements DatabaseAdapter {
     return localStore.getChatCountLocal();
   }
 
+  // Turn item operations (delegated to local store)
+  async saveTurnItems(chatId: string, messageId: string, items: ResponseInputItem[]): Promise<void> {
+    localStore.saveTurnItemsLocal(chatId, messageId, items);
+  }
+
+  async getTurnItems(chatId: string): Promise<TurnItems[]> {
+    return localStore.getTurnItemsLocal(chatId);
+  }
+
+  // Session state operations (delegated to local store)
+  async saveSessionState(state: ChatSessionState): Promise<void> {
+    localStore.saveSessionStateLocal(state);
+  }
+
+  async getSessionState(chatId: string): Promise<ChatSessionState | null> {
+    return localStore.getSessionStateLocal(chatId);
+  }
+
+  async deleteSessionState(chatId: string): Promise<void> {
+    localStore.deleteSessionStateLocal(chatId);
+  }
+
+  // Chat turn lock operations (delegated to local store)
+  async acquireChatLock(chatId: string, owner: string, ttlMs: number): Promise<boolean> {
+    return localStore.acquireChatLockLocal(chatId, owner, ttlMs);
+  }
+
+  async releaseChatLock(chatId: string, owner: string): Promise<void> {
+    localStore.releaseChatLockLocal(chatId, owner);
+  }
+
+  // Prompt version operations (delegated to local store)
+  async getActivePromptVersion(): Promise<PromptActivation | null> {
+    return localStore.getActivePromptVersionLocal();
+  }
+
+  async activatePromptVersion(version: string, activatedBy: string | null): Promise<PromptActivation> {
+    return localStore.activatePromptVersionLocal(version, activatedBy);
+  }
+
   // Daily limit operations
   async getDailyLimit(userId: string, date: string): Promise<DailyLimit | null> {
     const key = `${userId}:${date}`;
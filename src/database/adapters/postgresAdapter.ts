@@ -4,7 +4,8 @@
  */
 import { Pool, QueryResult } from 'pg';
 import { v4 as uuidv4 } from 'uuid';
-import { DatabaseAdapter, DailyLimit, UserStats, ChatWithStats } from '../adapter';
+import { ResponseInputItem } from 'openai/resources/responses/responses';
+import { DatabaseAdapter, DailyLimit, UserStats, ChatWithStats, ChatSessionState, PromptActivation, TurnItems } from '../adapter';
 import { runMigrations } from '../migrations';
 import { DatabaseConfig } from '../config';
 import { Message, User } from '../../accounts';
@@ -322,17 +323,17 @@ export class PostgresDatabaseAdapter implements DatabaseAdapter {
 
   async logMessage(
     chatId: string,
-    sender: 'user' | 'agent',
+    sender: 'user' | 'agent' | 'system',
     text: string,
-    opts?: { entryId?: string; msg_id?: string; userId?: string; tokensUsed?: number; bookIds?: string[]; bookCatalogs?: Record<string, string> }
+    opts?: { entryId?: string; msg_id?: string; userId?: string; tokensUsed?: number; bookIds?: string[]; bookCatalogs?: Record<string, string>; parentMessageId?: string; model?: string; promptVersion?: string }
   ): Promise<Message | null> {
     if (!chatId) return null;
 
     try {
       const query = `
-        INSERT INTO messages (id, chat_id, user_id, sender, text, entry_id, msg_id, tokens_used, book_ids, book_catalogs, timestamp)
-        VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9::jsonb, $10::jsonb, CURRENT_TIMESTAMP)
-        RETURNING id, chat_id, sender, text, timestamp, entry_id, msg_id, user_id, tokens_used, book_ids, book_catalogs;
+        INSERT INTO messages (id, chat_id, user_id, sender, text, entry_id, msg_id, tokens_used, book_ids, book_catalogs, parent_message_id, model, prompt_version, timestamp)
+        VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9::jsonb, $10::jsonb, $11, $12, $13, CURRENT_TIMESTAMP)
+        RETURNING id, chat_id, sender, text, timestamp, entry_id, msg_id, user_id, tokens_used, book_ids, book_catalogs, parent_message_id, branch_id, is_active, model, prompt_version;
       `;
 
       const result = await this.pool.query(query, [
@@ -346,6 +347,9 @@ export class PostgresDatabaseAdapter implements DatabaseAdapter {
         opts?.tokensUsed || 0,
         opts?.bookIds ? JSON.stringify(opts.bookIds) : null,
         opts?.bookCatalogs ? JSON.stringify(opts.bookCatalogs) : null,
+        opts?.parentMessageId || null,
+        opts?.model || null,
+        opts?.promptVersion || null,
       ]);
 
       return this.rowToMessage(result.rows[0]);
@@ -361,7 +365,7 @@ export class PostgresDatabaseAdapter implements DatabaseAdapter {
         UPDATE messages
         SET tokens_used = $2
         WHERE id = $1
-        RETURNING id, chat_id, sender, text, timestamp, entry_id, msg_id, user_id, book_ids, book_catalogs, tokens_used;
+        RETURNING id, chat_id, sender, text, timestamp, entry_id, msg_id, user_id, book_ids, book_catalogs, tokens_used, parent_message_id, branch_id, is_active, model, prompt_version;
       `;
 
       const result = await this.pool.query(query, [messageId, tokensUsed]);
@@ -372,11 +376,13 @@ export class PostgresDatabaseAdapter implements DatabaseAdapter {
     }
   }
 
-  async getChatHistory(chatId: string): Promise<Message[]> {
+  async getChatHistory(chatId: string, includeInactive = false): Promise<Message[]> {
     try {
       const result = await this.pool.query(
-        'SELECT id, chat_id, sender, text, timestamp, entry_id, msg_id, user_id, tokens_used, book_ids, book_catalogs FROM messages WHERE chat_id = $1 ORDER BY timestamp ASC',
-        [chatId]
+        `SELECT id, chat_id, sender, text, timestamp, entry_id, msg_id, user_id, tokens_used, book_ids, book_catalogs, parent_message_id, branch_id, is_active, model, prompt_version
+         FROM messages WHERE chat_id = $1 AND ($2 OR is_active IS NOT FALSE)
+         ORDER BY timestamp ASC`,
+        [chatId, includeInactive]
       );
       return result.rows.map((row) => this.rowToMessage(row));
     } catch (error) {
@@ -385,6 +391,23 @@ export class PostgresDatabaseAdapter implements DatabaseAdapter {
     }
   }
 
+  async supersedeMessages(chatId: string, fromMessageId: string): Promise<string | null> {
+    try {
+      const branchId = uuidv4();
+      const result = await this.pool.query(
+        `UPDATE messages
+         SET is_active = FALSE, branch_id = $3
+         WHERE chat_id = $1 AND is_active IS NOT FALSE
+           AND timestamp >= (SELECT timestamp FROM messages WHERE id = $2 AND chat_id = $1 AND is_active IS NOT FALSE)`,
+        [chatId, fromMessageId, branchId]
+      );
+      return (result.rowCount ?? 0) > 0 ? branchId : null;
+    } catch (error) {
+      console.error('Error superseding messages:', error);
+      return null;
+    }
+  }
+
   async clearChatHistory(chatId: string): Promise<void> {
     try {
       await this.pool.query('DELETE FROM messages WHERE chat_id = $1', [chatId]);
@@ -449,7 +472,7 @@ export class PostgresDatabaseAdapter implements DatabaseAdapter {
   async getUserMessagesInChat(chatId: string, userId: string): Promise<Message[]> {
     try {
       const result = await this.pool.query(
-        `SELECT id, chat_id, sender, text, timestamp, entry_id, msg_id, user_id, tokens_used, book_ids, book_catalogs
+        `SELECT id, chat_id, sender, text, timestamp, entry_id, msg_id, user_id, tokens_used, book_ids, book_catalogs, parent_message_id, branch_id, is_active, model, prompt_version
          FROM messages WHERE chat_id = $1 AND sender = 'user' AND user_id = $2
          ORDER BY timestamp ASC`,
         [chatId, userId]
@@ -461,8 +484,8 @@ export class PostgresDatabaseAdapter implements DatabaseAdapter {
     }
   }
 
-  async getFullChatHistory(chatId: string): Promise<Message[]> {
-    return this.getChatHistory(chatId);
+  async getFullChatHistory(chatId: string, includeInactive = false): Promise<Message[]> {
+    return this.getChatHistory(chatId, includeInactive);
   }
 
   async getAllChatIds(): Promise<string[]> {
@@ -485,6 +508,133 @@ export class PostgresDatabaseAdapter implements DatabaseAdapter {
     }
   }
 
+  // Turn item operations
+  async saveTurnItems(chatId: string, messageId: string, items: ResponseInputItem[]): Promise<void> {
+    try {
+      await this.pool.query(
+        `INSERT INTO turn_items (chat_id, message_id, items)
+         VALUES ($1, $2, $3::jsonb)
+         ON CONFLICT (message_id) DO UPDATE SET items = $3::jsonb`,
+        [chatId, messageId, JSON.stringify(items)]
+      );
+    } catch (error) {
+      console.error('Error saving turn items:', error);
+      throw error;
+    }
+  }
+
+  async getTurnItems(chatId: string): Promise<TurnItems[]> {
+    try {
+      const result = await this.pool.query(
+        'SELECT message_id, items FROM turn_items WHERE chat_id = $1 ORDER BY created_at ASC, id ASC',
+        [chatId]
+      );
+      return result.rows.map((row) => ({ messageId: row.message_id, items: row.items || [] }));
+    } catch (error) {
+      console.error('Error getting turn items:', error);
+      return [];
+    }
+  }
+
+  // Session state operations
+  async saveSessionState(state: ChatSessionState): Promise<void> {
+    try {
+      const query = `
+        INSERT INTO chat_sessions (chat_id, user_id, entry_id, catalog_id, chat_history, queue_offset, entry_catalogs, updated_at)
+        VALUES ($1, $2, $3, $4, $5::jsonb, $6, $7::jsonb, CURRENT_TIMESTAMP)
+        ON CONFLICT (chat_id) DO UPDATE SET
+          entry_id = $3,
+          catalog_id = $4,
+          chat_history = $5::jsonb,
+          queue_offset = $6,
+          entry_catalogs = $7::jsonb,
+          updated_at = CURRENT_TIMESTAMP;
+      `;
+
+      await this.pool.query(query, [
+        state.chatId,
+        state.userId,
+        state.entryId,
+        state.catalogId,
+        JSON.stringify(state.chatHistory),
+        state.queueOffset,
+        JSON.stringify(state.entryCatalogs || {}),
+      ]);
+    } catch (error) {
+      console.error('Error saving session state:', error);
+      throw error;
+    }
+  }
+
+  async getSessionState(chatId: string): Promise<ChatSessionState | null> {
+    try {
+      const result = await this.pool.query('SELECT * FROM chat_sessions WHERE chat_id = $1', [chatId]);
+      return result.rows.length > 0 ? this.rowToSessionState(result.rows[0]) : null;
+    } catch (error) {
+      // Not the same as a missing session, callers must not treat the chat as unknown
+      console.error('Error getting session state:', error);
+      throw error;
+    }
+  }
+
+  async deleteSessionState(chatId: string): Promise<void> {
+    try {
+      await this.pool.query('DELETE FROM chat_sessions WHERE chat_id = $1', [chatId]);
+    } catch (error) {
+      console.error('Error deleting session state:', error);
+    }
+  }
+
+  // Chat turn lock operations
+  async acquireChatLock(chatId: string, owner: string, ttlMs: number): Promise<boolean> {
+    try {
+      // Takes a free or expired lock, an expired one is left by a replica that died mid-turn
+      const result = await this.pool.query(
+        `INSERT INTO chat_locks (chat_id, owner, locked_until)
+         VALUES ($1, $2, CURRENT_TIMESTAMP + $3 * INTERVAL '1 millisecond')
+         ON CONFLICT (chat_id) DO UPDATE SET owner = EXCLUDED.owner, locked_until = EXCLUDED.locked_until
+         WHERE chat_locks.locked_until < CURRENT_TIMESTAMP
+         RETURNING chat_id`,
+        [chatId, owner, ttlMs]
+      );
+      return (result.rowCount ?? 0) > 0;
+    } catch (error) {
+      console.error('Error acquiring chat lock:', error);
+      throw error;
+    }
+  }
+
+  async releaseChatLock(chatId: string, owner: string): Promise<void> {
+    try {
+      await this.pool.query('DELETE FROM chat_locks WHERE chat_id = $1 AND owner = $2', [chatId, owner]);
+    } catch (error) {
+      console.error('Error releasing chat lock:', error);
+    }
+  }
+
+  // Prompt version operations
+  async getActivePromptVersion(): Promise<PromptActivation | null> {
+    try {
+      const result = await this.pool.query(
+        'SELECT version, activated_by, activated_at FROM prompt_activations ORDER BY activated_at DESC, id DESC LIMIT 1'
+      );
+      return result.rows.length > 0 ? this.rowToPromptActivation(result.rows[0]) : null;
+    } catch (error) {
+      console.error('Error getting active prompt version:', error);
+      return null;
+    }
+  }
+
+  async activatePromptVersion(version: string, activatedBy: string | null): Promise<PromptActivation> {
+    const result = await this.pool.query(
+      `INSERT INTO prompt_activations (version, activated_by, activated_at)
+       VALUES ($1, $2, CURRENT_TIMESTAMP)
+       RETURNING version, activated_by, activated_at`,
+      [version, activatedBy]
+    );
+    return this.rowToPromptActivation(result.rows[0]);
+  }
+
   // Daily limit operations
   async getDailyLimit(userId: string, date: string): Promise<DailyLimit | null> {
     try {
@@ -620,6 +770,32 @@ export class PostgresDatabaseAdapter implements DatabaseAdapter {
       tokensUsed: row.tokens_used,
       bookIds: row.book_ids || undefined,
       bookCatalogs: row.book_catalogs || undefined,
+      parentMessageId: row.parent_message_id || undefined,
+      branchId: row.branch_id || undefined,
+      active: row.is_active !== false,
+      model: row.model || undefined,
+      promptVersion: row.prompt_version || undefined,
+    };
+  }
+
+  private rowToPromptActivation(row: any): PromptActivation {
+    return {
+      version: row.version,
+      activatedBy: row.activated_by,
+      activatedAt: row.activated_at?.toISOString?.() || row.activated_at,
+    };
+  }
+
+  private rowToSessionState(row: any): ChatSessionState {
+    return {
+      chatId: row.chat_id,
+      userId: row.user_id,
+      entryId: row.entry_id,
+      catalogId: row.catalog_id,
+      chatHistory: row.chat_history || [],
+      entryCatalogs: row.entry_catalogs || {},
+      queueOffset: row.queue_offset || 0,
+      updatedAt: row.updated_at?.toISOString?.() || row.updated_at,
     };
   }
 
@@ -40,3 +40,146 @@ export function getDailyLimitConfig() {
     resetHour: parseInt(process.env.DAILY_LIMIT_RESET_HOUR || '0', 10),
   };
 }
+
+export function getSessionConfig() {
+  const maxActiveSessions = parseInt(process.env.SESSION_MAX_ACTIVE || '500', 10);
+  return {
+    store: (process.env.SESSION_STORE || 'memory') as 'memory' | 'database',
+    // Snapshots of the active sessions plus as many evicted ones, older evicted chats are rebuilt from the database
+    memoryStoreMaxEntries: parseInt(process.env.SESSION_STORE_MAX_ENTRIES || String(maxActiveSessions * 2), 10),
+    idleTtlMinutes: parseInt(process.env.SESSION_IDLE_TTL_MINUTES || '30', 10),
+    maxActiveSessions,
+    evictionIntervalSeconds: parseInt(process.env.SESSION_EVICTION_INTERVAL_SECONDS || '60', 10),
+    // Evicted chats whose entry/catalog context is remembered for rehydration
+    evictedMaxEntries: parseInt(process.env.SESSION_EVICTED_MAX_ENTRIES || '10000', 10),
+    // A turn lock shared through the database expires after this, in case its replica dies mid-turn
+    turnLockTtlSeconds: parseInt(process.env.SESSION_TURN_LOCK_TTL_SECONDS || '600', 10),
+  };
+}
+
+export type LLMProviderType = 'openai-responses' | 'chat-completions';
+
+export function getLLMConfig() {
+  return {
+    provider: (process.env.LLM_PROVIDER || 'openai-responses') as LLMProviderType,
+    // Falls back to the OpenAI key, self-hosted servers usually don't need one
+    apiKey: process.env.LLM_API_KEY || process.env.OPENAI_API_KEY,
+    // e.g. http://localhost:8000/v1 for vLLM or http://localhost:11434/v1 for Ollama
+    baseURL: process.env.LLM_BASE_URL || undefined,
+  };
+}
+
+// Who a chat turn is generated for - each class can use its own model and parameters
+export type LLMRequestClass = 'default' | 'superuser' | 'widget';
+
+export interface GenerationSettings {
+  model: string;
+  temperature?: number;
+  verbosity?: 'low' | 'medium' | 'high';
+}
+
+function parseOptionalFloat(value: string | undefined): number | undefined {
+  return value ? parseFloat(value) : undefined;
+}
+
+/**
+ * Generation settings for a request class
+ * LLM_MODEL, LLM_TEMPERATURE and LLM_VERBOSITY are the defaults,
+ * LLM_SUPERUSER_* and LLM_WIDGET_* override them for that class
+ */
+export function getGenerationSettings(requestClass: LLMRequestClass = 'default'): GenerationSettings {
+  const defaults: GenerationSettings = {
+    model: process.env.LLM_MODEL || 'gpt-4.1',
+    temperature: parseOptionalFloat(process.env.LLM_TEMPERATURE),
+    verbosity: (process.env.LLM_VERBOSITY || 'medium') as GenerationSettings['verbosity'],
+  };
+
+  if (requestClass === 'default') {
+    return defaults;
+  }
+
+  const prefix = `LLM_${requestClass.toUpperCase()}_`;
+  return {
+    model: process.env[`${prefix}MODEL`] || defaults.model,
+    temperature: parseOptionalFloat(process.env[`${prefix}TEMPERATURE`]) ?? defaults.temperature,
+    verbosity: (process.env[`${prefix}VERBOSITY`] as GenerationSettings['verbosity']) || defaults.verbosity,
+  };
+}
+
+export function getPromptConfig() {
+  return {
+    // Directory with the <version>.txt system prompt templates, defaults to the bundled prompts
+    dir: process.env.PROMPTS_DIR || undefined,
+    // Used until an admin activates a version
+    defaultVersion: process.env.PROMPT_DEFAULT_VERSION || 'v4',
+    libraryName: process.env.LIBRARY_NAME || 'the library',
+    defaultLanguage: process.env.PROMPT_DEFAULT_LANGUAGE || 'the language the user writes in',
+  };
+}
+
+export function getCompactionConfig() {
+  return {
+    enabled: process.env.HISTORY_COMPACTION !== 'off',
+    // Estimated tokens of chat history sent to the model before older turns are compacted
+    maxTokens: parseInt(process.env.HISTORY_MAX_TOKENS || '24000', 10),
+    keepRecentTurns: parseInt(process.env.HISTORY_KEEP_RECENT_TURNS || '4', 10),
+    toolOutputMaxChars: parseInt(process.env.HISTORY_TOOL_OUTPUT_MAX_CHARS || '500', 10),
+  };
+}
+
+export function getHistoryReplayConfig() {
+  return {
+    // Store the raw OpenAI items of every turn and replay them when a chat is resumed
+    enabled: process.env.HISTORY_REPLAY !== 'off',
+    // Tool outputs longer than this are stored as a placeholder, 0 keeps them all
+    toolOutputMaxChars: parseInt(process.env.HISTORY_REPLAY_TOOL_OUTPUT_MAX_CHARS || '0', 10),
+  };
+}
+
+export function getToolOutputConfig() {
+  return {
+    // Send only the entry fields the model needs instead of the raw Elvira response
+    projectEntries: process.env.TOOL_OUTPUT_PROJECTION !== 'off',
+    maxEntries: parseInt(process.env.TOOL_ENTRIES_MAX_ITEMS || '10', 10),
+    summaryMaxLength: parseInt(process.env.TOOL_SUMMARY_MAX_LENGTH || '300', 10),
+  };
+}
+
+export function getToolLimitsConfig() {
+  return {
+    // Model calls that returned tool calls, per turn
+    maxRounds: parseInt(process.env.TOOL_MAX_ROUNDS || '5', 10),
+    // Tool calls executed per turn, over all rounds
+    maxCalls: parseInt(process.env.TOOL_MAX_CALLS || '15', 10),
+    // Tool calls of one round that run at the same time
+    maxConcurrency: parseInt(process.env.TOOL_MAX_CONCURRENCY || '4', 10),
+    // Timeout of tools that don't declare their own
+    timeoutMs: parseInt(process.env.TOOL_TIMEOUT_MS || '10000', 10),
+    // Per-tool overrides, e.g. "getEntries=25000,getEntryDetails=10000"
+    timeouts: parseToolTimeouts(process.env.TOOL_TIMEOUTS || ''),
+  };
+}
+
+function parseToolTimeouts(value: string): Record<string, number> {
+  const timeouts: Record<string, number> = {};
+  for (const pair of value.split(',')) {
+    const [name, ms] = pair.split('=').map((part) => part.trim());
+    if (name && ms && !isNaN(parseInt(ms, 10))) {
+      timeouts[name] = parseInt(ms, 10);
+    }
+  }
+  return timeouts;
+}
+
+export function getElviraConfig() {
+  return {
+    // Timeout of a single HTTP request to Elvira
+    requestTimeoutMs: parseInt(process.env.ELVIRA_TIMEOUT_MS || '5000', 10),
+    // Retries of idempotent GETs after timeouts, network errors and 5xx responses
+    retries: parseInt(process.env.ELVIRA_RETRIES || '2', 10),
+    retryBaseMs: parseInt(process.env.ELVIRA_RETRY_BASE_MS || '300', 10),
+    // Consecutive failed requests after which tool calls fail fast for the cooldown
+    breakerThreshold: parseInt(process.env.ELVIRA_BREAKER_THRESHOLD || '5', 10),
+    breakerCooldownMs: parseInt(process.env.ELVIRA_BREAKER_COOLDOWN_MS || '30000', 10),
+  };
+}
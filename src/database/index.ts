@@ -50,4 +50,4 @@ export async function closeDatabase(): Promise<void> {
   }
 }
 
-export { DatabaseAdapter, DailyLimit } from './adapter';
+export { DatabaseAdapter, DailyLimit, ChatSessionState, PromptActivation, TurnItems } from './adapter';
@@ -6,8 +6,9 @@
 import { v4 as uuidv4 } from 'uuid';
 import * as fs from 'fs';
 import * as path from 'path';
+import { ResponseInputItem } from 'openai/resources/responses/responses';
 import { User, Message } from '../accounts';
-import { UserStats, ChatWithStats } from './adapter';
+import { UserStats, ChatWithStats, ChatSessionState, PromptActivation, TurnItems } from './adapter';
 
 // ============================================================
 // Persistence Configuration
@@ -17,6 +18,9 @@ const STORAGE_DIR = path.join(process.platform === 'win32' ? (process.env.TEMP |
 const USERS_FILE = path.join(STORAGE_DIR, 'users.json');
 const CHATS_FILE = path.join(STORAGE_DIR, 'chats.json');
 const CHATS_METADATA_FILE = path.join(STORAGE_DIR, 'chats_metadata.json');
+const SESSIONS_FILE = path.join(STORAGE_DIR, 'sessions.json');
+const PROMPT_ACTIVATIONS_FILE = path.join(STORAGE_DIR, 'prompt_activations.json');
+const TURN_ITEMS_FILE = path.join(STORAGE_DIR, 'turn_items.json');
 console.log(`Local storage directory: ${STORAGE_DIR}`);
 
 // Ensure storage directory exists
@@ -38,6 +42,11 @@ let chatsMetadata: Record<string, {
   messageCount: number;
   totalTokens: number;
 }> = {};
+let sessions: Record<string, ChatSessionState> = {};
+let promptActivations: PromptActivation[] = [];
+let turnItems: Record<string, TurnItems[]> = {};
+// Not persisted, the local store serves a single process
+let chatLocks: Record<string, { owner: string; lockedUntil: number }> = {};
 
 // ============================================================
 // Persistence Functions
@@ -67,6 +76,30 @@ function saveChatsMetadata(): void {
   }
 }
 
+function saveSessions(): void {
+  try {
+    fs.writeFileSync(SESSIONS_FILE, JSON.stringify(sessions), 'utf-8');
+  } catch (error) {
+    console.error('Failed to save sessions to disk:', error);
+  }
+}
+
+function savePromptActivations(): void {
+  try {
+    fs.writeFileSync(PROMPT_ACTIVATIONS_FILE, JSON.stringify(promptActivations, null, 2), 'utf-8');
+  } catch (error) {
+    console.error('Failed to save prompt activations to disk:', error);
+  }
+}
+
+function saveTurnItems(): void {
+  try {
+    fs.writeFileSync(TURN_ITEMS_FILE, JSON.stringify(turnItems), 'utf-8');
+  } catch (error) {
+    console.error('Failed to save turn items to disk:', error);
+  }
+}
+
 function loadUsers(): void {
   try {
     if (fs.existsSync(USERS_FILE)) {
@@ -100,10 +133,46 @@ function loadChatsMetadata(): void {
   }
 }
 
+function loadSessions(): void {
+  try {
+    if (fs.existsSync(SESSIONS_FILE)) {
+      const data = fs.readFileSync(SESSIONS_FILE, 'utf-8');
+      sessions = JSON.parse(data);
+    }
+  } catch (error) {
+    console.error('Failed to load sessions from disk:', error);
+  }
+}
+
+function loadPromptActivations(): void {
+  try {
+    if (fs.existsSync(PROMPT_ACTIVATIONS_FILE)) {
+      const data = fs.readFileSync(PROMPT_ACTIVATIONS_FILE, 'utf-8');
+      promptActivations = JSON.parse(data);
+    }
+  } catch (error) {
+    console.error('Failed to load prompt activations from disk:', error);
+  }
+}
+
+function loadTurnItems(): void {
+  try {
+    if (fs.existsSync(TURN_ITEMS_FILE)) {
+      const data = fs.readFileSync(TURN_ITEMS_FILE, 'utf-8');
+      turnItems = JSON.parse(data);
+    }
+  } catch (error) {
+    console.error('Failed to load turn items from disk:', error);
+  }
+}
+
 // Load data on module initialization
 loadUsers();
 loadChats();
 loadChatsMetadata();
+loadSessions();
+loadPromptActivations();
+loadTurnItems();
 
 // ============================================================
 // User Management Functions
@@ -219,9 +288,9 @@ export function createChatLocal(
 
 export function logMessageLocal(
   chatId: string,
-  sender: 'user' | 'agent',
+  sender: 'user' | 'agent' | 'system',
   text: string,
-  opts?: { entryId?: string; msg_id?: string; userId?: string; tokensUsed?: number; bookIds?: string[]; bookCatalogs?: Record<string, string> }
+  opts?: { entryId?: string; msg_id?: string; userId?: string; tokensUsed?: number; bookIds?: string[]; bookCatalogs?: Record<string, string>; parentMessageId?: string; model?: string; promptVersion?: string }
 ): Message | null {
   if (!chatId) return null;
 
@@ -237,6 +306,10 @@ export function logMessageLocal(
     tokensUsed: opts?.tokensUsed || 0,
     bookIds: opts?.bookIds,
     bookCatalogs: opts?.bookCatalogs,
+    parentMessageId: opts?.parentMessageId,
+    model: opts?.model,
+    promptVersion: opts?.promptVersion,
+    active: true,
   };
 
   chats[chatId] = chats[chatId] || [];
@@ -248,7 +321,7 @@ export function logMessageLocal(
     chatsMetadata[chatId].totalTokens = (chatsMetadata[chatId].totalTokens || 0) + (opts?.tokensUsed || 0);
     
     // Auto-generate title from first user message if not set
-    if (!chatsMetadata[chatId].title && sender === 'user' && chatsMetadata[chatId].messageCount === 1) {
+    if (!chatsMetadata[chatId].title && sender === 'user' && !chats[chatId].some((m) => m.sender === 'user' && m !== msg)) {
       chatsMetadata[chatId].title = text.substring(0, 100);
     }
     
@@ -259,13 +332,40 @@ export function logMessageLocal(
   return msg;
 }
 
-export function getChatHistoryLocal(chatId: string): Message[] {
-  return chats[chatId] || [];
+// Messages logged before branches existed have no active flag
+function isActiveMessage(msg: Message): boolean {
+  return msg.active !== false;
+}
+
+export function getChatHistoryLocal(chatId: string, includeInactive = false): Message[] {
+  const msgs = chats[chatId] || [];
+  return includeInactive ? msgs : msgs.filter(isActiveMessage);
+}
+
+export function supersedeMessagesLocal(chatId: string, fromMessageId: string): string | null {
+  const msgs = chats[chatId] || [];
+  const fromIndex = msgs.findIndex((m) => m.id === fromMessageId && isActiveMessage(m));
+  if (fromIndex === -1) return null;
+
+  const branchId = uuidv4();
+  for (const msg of msgs.slice(fromIndex)) {
+    if (isActiveMessage(msg)) {
+      msg.active = false;
+      msg.branchId = branchId;
+    }
+  }
+
+  saveChats();
+  return branchId;
 }
 
 export function clearChatHistoryLocal(chatId: string): void {
   delete chats[chatId];
   saveChats();
+  if (turnItems[chatId]) {
+    delete turnItems[chatId];
+    saveTurnItems();
+  }
 }
 
 export function getChatsByUserLocal(userId: string): { chatId: string; startedAt?: string }[] {
@@ -289,8 +389,8 @@ export function getUserMessagesInChatLocal(chatId: string, userId: string): Mess
   return msgs.filter((m) => m.sender === 'user' && m.userId === userId);
 }
 
-export function getFullChatHistoryLocal(chatId: string): Message[] {
-  return chats[chatId] || [];
+export function getFullChatHistoryLocal(chatId: string, includeInactive = false): Message[] {
+  return getChatHistoryLocal(chatId, includeInactive);
 }
 
 export function getAllChatIdsLocal(): string[] {
@@ -394,3 +494,74 @@ export function updateMessageTokensLocal(messageId: string, tokensUsed: number):
   }
   return null;
 }
+
+// ============================================================
+// Session State Functions
+// ============================================================
+
+export function saveSessionStateLocal(state: ChatSessionState): void {
+  sessions[state.chatId] = { ...state, updatedAt: new Date().toISOString() };
+  saveSessions();
+}
+
+export function getSessionStateLocal(chatId: string): ChatSessionState | null {
+  return sessions[chatId] || null;
+}
+
+export function deleteSessionStateLocal(chatId: string): void {
+  if (sessions[chatId]) {
+    delete sessions[chatId];
+    saveSessions();
+  }
+}
+
+// ============================================================
+// Chat Lock Functions
+// ============================================================
+
+export function acquireChatLockLocal(chatId: string, owner: string, ttlMs: number): boolean {
+  const lock = chatLocks[chatId];
+  if (lock && lock.lockedUntil > Date.now()) {
+    return false;
+  }
+  chatLocks[chatId] = { owner, lockedUntil: Date.now() + ttlMs };
+  return true;
+}
+
+export function releaseChatLockLocal(chatId: string, owner: string): void {
+  if (chatLocks[chatId]?.owner === owner) {
+    delete chatLocks[chatId];
+  }
+}
+
+// ============================================================
+// Turn Item Functions
+// ============================================================
+
+export function saveTurnItemsLocal(chatId: string, messageId: string, items: ResponseInputItem[]): void {
+  // A turn is saved once, saving again (e.g. after a retry) replaces it
+  const turns = (turnItems[chatId] || []).filter((turn) => turn.messageId !== messageId);
+  turns.push({ messageId, items });
+  turnItems[chatId] = turns;
+  saveTurnItems();
+}
+
+export function getTurnItemsLocal(chatId: string): TurnItems[] {
+  return turnItems[chatId] || [];
+}
+
+// ============================================================
+// Prompt Version Functions
+// ============================================================
+
+export function getActivePromptVersionLocal(): PromptActivation | null {
+  return promptActivations[promptActivations.length - 1] || null;
+}
+
+export function activatePromptVersionLocal(version: string, activatedBy: string | null): PromptActivation {
+  const activation: PromptActivation = { version, activatedBy, activatedAt: new Date().toISOString() };
+  // Kept as a log, the last activation is the active one
+  promptActivations.push(activation);
+  savePromptActivations();
+  return activation;
+}
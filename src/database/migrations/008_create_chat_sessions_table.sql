@@ -0,0 +1,27 @@
+-- Migration: 008_create_chat_sessions_table
+-- Store live chat session state so any replica can serve any chat
+-- UP
+
+CREATE TABLE IF NOT EXISTS chat_sessions (
+  chat_id VARCHAR(36) PRIMARY KEY,
+  user_id VARCHAR(36) NOT NULL,
+  entry_id VARCHAR(36),
+  catalog_id VARCHAR(36),
+  chat_history JSONB NOT NULL DEFAULT '[]',
+  queue_offset INT DEFAULT 0,
+  updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  FOREIGN KEY (chat_id) REFERENCES chats(id) ON DELETE CASCADE,
+  FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_chat_sessions_user_id ON chat_sessions(user_id);
+CREATE INDEX IF NOT EXISTS idx_chat_sessions_updated_at ON chat_sessions(updated_at);
+
+COMMENT ON COLUMN chat_sessions.chat_history IS 'OpenAI Responses API input items of the session';
+COMMENT ON COLUMN chat_sessions.queue_offset IS 'Next message queue index - keeps SSE event ids increasing when another replica takes over';
+
+-- DOWN
+
+DROP INDEX IF EXISTS idx_chat_sessions_updated_at;
+DROP INDEX IF EXISTS idx_chat_sessions_user_id;
+DROP TABLE IF EXISTS chat_sessions;
@@ -0,0 +1,26 @@
+-- Migration: 009_add_message_branches
+-- Keep edited/regenerated messages as alternative branches instead of deleting them
+-- UP
+
+-- Message this one was edited or regenerated from
+ALTER TABLE messages ADD COLUMN IF NOT EXISTS parent_message_id VARCHAR(36) DEFAULT NULL;
+
+-- Set when a message is moved off the active thread - messages superseded together share it
+ALTER TABLE messages ADD COLUMN IF NOT EXISTS branch_id VARCHAR(36) DEFAULT NULL;
+
+-- Only active messages form the conversation the assistant sees
+ALTER TABLE messages ADD COLUMN IF NOT EXISTS is_active BOOLEAN DEFAULT TRUE;
+
+CREATE INDEX IF NOT EXISTS idx_messages_chat_id_is_active ON messages(chat_id, is_active);
+CREATE INDEX IF NOT EXISTS idx_messages_parent_message_id ON messages(parent_message_id);
+
+COMMENT ON COLUMN messages.parent_message_id IS 'Id of the message this one was edited or regenerated from';
+COMMENT ON COLUMN messages.branch_id IS 'Alternative branch id, set when the message was superseded by an edit or regeneration';
+
+-- DOWN
+
+DROP INDEX IF EXISTS idx_messages_parent_message_id;
+DROP INDEX IF EXISTS idx_messages_chat_id_is_active;
+ALTER TABLE messages DROP COLUMN IF EXISTS is_active;
+ALTER TABLE messages DROP COLUMN IF EXISTS branch_id;
+ALTER TABLE messages DROP COLUMN IF EXISTS parent_message_id;
@@ -0,0 +1,14 @@
+-- Migration: 010_add_model_to_messages
+-- Record which model answered each turn, for cost analysis
+-- UP
+
+ALTER TABLE messages ADD COLUMN IF NOT EXISTS model VARCHAR(100) DEFAULT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_messages_model ON messages(model);
+
+COMMENT ON COLUMN messages.model IS 'Model used for the turn the message belongs to';
+
+-- DOWN
+
+DROP INDEX IF EXISTS idx_messages_model;
+ALTER TABLE messages DROP COLUMN IF EXISTS model;
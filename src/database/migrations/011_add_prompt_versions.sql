@@ -0,0 +1,26 @@
+-- Migration: 011_add_prompt_versions
+-- Track which system prompt version is active and which one produced each agent message
+-- UP
+
+-- Every activation is kept, the latest one is the active version
+CREATE TABLE IF NOT EXISTS prompt_activations (
+  id SERIAL PRIMARY KEY,
+  version VARCHAR(100) NOT NULL,
+  activated_by VARCHAR(36),
+  activated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_prompt_activations_activated_at ON prompt_activations(activated_at);
+
+ALTER TABLE messages ADD COLUMN IF NOT EXISTS prompt_version VARCHAR(100) DEFAULT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_messages_prompt_version ON messages(prompt_version);
+
+COMMENT ON COLUMN messages.prompt_version IS 'System prompt template version the agent message was generated with';
+
+-- DOWN
+
+DROP INDEX IF EXISTS idx_messages_prompt_version;
+ALTER TABLE messages DROP COLUMN IF EXISTS prompt_version;
+DROP INDEX IF EXISTS idx_prompt_activations_activated_at;
+DROP TABLE IF EXISTS prompt_activations;
@@ -0,0 +1,11 @@
+-- Migration: 012_add_entry_catalogs_to_chat_sessions
+-- Keep the catalogs of entries seen in a chat, so tools can resolve an entry's catalog from its id
+-- UP
+
+ALTER TABLE chat_sessions ADD COLUMN IF NOT EXISTS entry_catalogs JSONB NOT NULL DEFAULT '{}';
+
+COMMENT ON COLUMN chat_sessions.entry_catalogs IS 'entryId -> catalogId of entries found or displayed in the chat';
+
+-- DOWN
+
+ALTER TABLE chat_sessions DROP COLUMN IF EXISTS entry_catalogs;
@@ -0,0 +1,23 @@
+-- Migration: 013_create_turn_items_table
+-- Store the raw OpenAI items of every turn, so resumed chats get the exact history the model saw
+-- UP
+
+CREATE TABLE IF NOT EXISTS turn_items (
+  id SERIAL PRIMARY KEY,
+  chat_id VARCHAR(36) NOT NULL,
+  message_id VARCHAR(36) NOT NULL UNIQUE,
+  items JSONB NOT NULL DEFAULT '[]',
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  FOREIGN KEY (chat_id) REFERENCES chats(id) ON DELETE CASCADE,
+  FOREIGN KEY (message_id) REFERENCES messages(id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_turn_items_chat_id ON turn_items(chat_id);
+
+COMMENT ON TABLE turn_items IS 'OpenAI Responses API input items of a turn (user message, tool calls and outputs, answer)';
+COMMENT ON COLUMN turn_items.message_id IS 'User message that started the turn - superseded messages drop out of the replay with it';
+
+-- DOWN
+
+DROP INDEX IF EXISTS idx_turn_items_chat_id;
+DROP TABLE IF EXISTS turn_items;
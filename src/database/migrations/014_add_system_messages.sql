@@ -0,0 +1,52 @@
+-- Migration: 014_add_system_messages
+-- Allow system events (e.g. entry context switches) in the chat log
+-- UP
+
+ALTER TABLE messages DROP CONSTRAINT IF EXISTS messages_sender_check;
+ALTER TABLE messages ADD CONSTRAINT messages_sender_check CHECK (sender IN ('user', 'agent', 'system'));
+
+-- The title comes from the first user message, system events before it don't count
+CREATE OR REPLACE FUNCTION generate_chat_title_from_first_message()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.sender = 'user' THEN
+    UPDATE chats 
+    SET title = LEFT(NEW.text, 100)
+    WHERE id = NEW.chat_id 
+      AND (title IS NULL OR title = '')
+      AND NOT EXISTS (
+        SELECT 1 FROM messages 
+        WHERE chat_id = NEW.chat_id 
+        AND id != NEW.id
+        AND sender = 'user'
+      );
+  END IF;
+  
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- DOWN
+
+CREATE OR REPLACE FUNCTION generate_chat_title_from_first_message()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.sender = 'user' THEN
+    UPDATE chats 
+    SET title = LEFT(NEW.text, 100)
+    WHERE id = NEW.chat_id 
+      AND (title IS NULL OR title = '')
+      AND NOT EXISTS (
+        SELECT 1 FROM messages 
+        WHERE chat_id = NEW.chat_id 
+        AND id != NEW.id
+      );
+  END IF;
+  
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DELETE FROM messages WHERE sender = 'system';
+ALTER TABLE messages DROP CONSTRAINT IF EXISTS messages_sender_check;
+ALTER TABLE messages ADD CONSTRAINT messages_sender_check CHECK (sender IN ('user', 'agent'));
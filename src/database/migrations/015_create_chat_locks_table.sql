@@ -0,0 +1,17 @@
+-- Migration: 015_create_chat_locks_table
+-- Per-chat turn lock shared by all replicas, so two replicas can't run turns of the same chat at once
+-- UP
+
+CREATE TABLE IF NOT EXISTS chat_locks (
+  chat_id VARCHAR(36) PRIMARY KEY,
+  owner VARCHAR(36) NOT NULL,
+  locked_until TIMESTAMP NOT NULL,
+  FOREIGN KEY (chat_id) REFERENCES chats(id) ON DELETE CASCADE
+);
+
+COMMENT ON COLUMN chat_locks.owner IS 'Process holding the lock - only it can release the lock';
+COMMENT ON COLUMN chat_locks.locked_until IS 'The lock expires at this time, so a replica that dies mid-turn does not block the chat';
+
+-- DOWN
+
+DROP TABLE IF EXISTS chat_locks;
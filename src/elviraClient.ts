@@ -1,17 +1,83 @@
 import axios, { AxiosError } from 'axios';
 import dotenv from 'dotenv';
 import { User } from './accounts';
+import { EntryQueryParams } from './types';
+import { getElviraConfig } from './database/config';
 
 dotenv.config();
 
+export const CATALOG_UNAVAILABLE_MESSAGE = 'Catalog temporarily unavailable. Tell the user the library catalog cannot be searched right now and to try again in a few minutes.';
+
+// Circuit breaker state, shared by all clients since they talk to the same Elvira backend
+const circuit = { failures: 0, openedAt: 0, trialInFlight: false };
+
+/**
+ * Whether a catalog request may be sent
+ * Once the breaker is open, a single trial request is let through after the cooldown
+ */
+function circuitAllowsRequest(): boolean {
+  const config = getElviraConfig();
+  if (circuit.failures < config.breakerThreshold) {
+    return true;
+  }
+  if (circuit.trialInFlight || Date.now() - circuit.openedAt < config.breakerCooldownMs) {
+    return false;
+  }
+  circuit.trialInFlight = true;
+  return true;
+}
+
+function recordCircuitResult(failed: boolean): void {
+  circuit.trialInFlight = false;
+  if (!failed) {
+    circuit.failures = 0;
+    return;
+  }
+  circuit.failures++;
+  if (circuit.failures >= getElviraConfig().breakerThreshold) {
+    circuit.openedAt = Date.now();
+    console.error(`[ElviraClient] Circuit open after ${circuit.failures} failed requests`);
+  }
+}
+
+/**
+ * Timeouts, network errors and 5xx responses - the backend is struggling, not the request
+ */
+function isBackendFailure(error: unknown): boolean {
+  if (!axios.isAxiosError(error)) {
+    return false;
+  }
+  const status = error.response?.status;
+  return status === undefined || status >= 500;
+}
+
+/**
+ * Waits ms, or rejects as soon as the signal is aborted
+ */
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal!.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
 export class ElviraClient {
   private baseUrl: string;
   private apiKey: string;
-  private catalogId: string;
   
-  constructor(apiKey: string, catalogId?: string) {
+  constructor(apiKey: string) {
     this.baseUrl = process.env.ELVIRA_BASE_URL || '';
-    this.catalogId = catalogId || '';
     this.apiKey = apiKey;
 
     if (!this.baseUrl) {
@@ -30,42 +96,17 @@ export class ElviraClient {
     return this.apiKey === providedKey;
   }
 
-  /**
-   * Gets the current catalog ID
-   */
-  getCatalogId(): string {
-    return this.catalogId;
-  }
-
-  /**
-   * Sets or updates the catalog ID
-   * Useful when the catalog context changes during a session
-   */
-  setCatalogId(catalogId: string): void {
-    this.catalogId = catalogId;
-  }
-
   /**
    * Get entries with pagination and filtering support
    * Supports filtering by: title, summary, category, author, language, date range, readium status, and custom query
    * Note: catalogId is optional - if not provided, entries from all catalogs will be returned
+   * Aborting the signal stops the request and any retries
    */
-  async getEntries(
-    page = 1,
-    limit = 25,
-    filters?: {
-      title?: string;
-      summary?: string;
-      category_term?: string;
-      author?: string;
-      language_code?: string;
-      published_at__gte?: string;
-      published_at__lte?: string;
-      config__readium_enabled?: boolean;
-      query?: string;
-    }
-  ) {
+  async getEntries({ catalogId, page = 1, limit = 25, filters }: EntryQueryParams, signal?: AbortSignal) {
     const url = `${this.baseUrl}/api/v1/entries`;
+    if (!circuitAllowsRequest()) {
+      throw new Error(CATALOG_UNAVAILABLE_MESSAGE);
+    }
     
     try {
       const params: Record<string, any> = {
@@ -75,14 +116,16 @@ export class ElviraClient {
         ...filters,
       };
 
-      if (this.catalogId) {
-        params.catalog_id = this.catalogId;
+      if (catalogId) {
+        params.catalog_id = catalogId;
       }
 
-      const res = await axios.get(url, {
+      const res = await this.getWithRetries('getEntries', () => axios.get(url, {
         headers: { 'Authorization': `Bearer ${this.apiKey}` },
         params,
-      });
+        timeout: getElviraConfig().requestTimeoutMs,
+        signal,
+      }), signal);
       
       return res.data;
     } catch (error) {
@@ -92,27 +135,32 @@ export class ElviraClient {
   }
 
   /**
-   * Get detailed information about a specific entry
-   * REQUIRES catalogId to be set - throws error if not provided
+   * Get detailed information about a specific entry of a catalog
+   * Aborting the signal stops the request and any retries
    */
-  async getEntryDetail(entryId: string) {
+  async getEntryDetail(catalogId: string, entryId: string, signal?: AbortSignal) {
     if (!entryId) {
       throw new Error('Entry ID is required');
     }
 
-    if (!this.catalogId) {
+    if (!catalogId) {
       throw new Error('Catalog ID is required for fetching entry details');
     }
 
-    const url = `${this.baseUrl}/api/v1/catalogs/${this.catalogId}/entries/${entryId}`;
+    const url = `${this.baseUrl}/api/v1/catalogs/${catalogId}/entries/${entryId}`;
+    if (!circuitAllowsRequest()) {
+      throw new Error(CATALOG_UNAVAILABLE_MESSAGE);
+    }
     
     try {
-      const res = await axios.get(url, {
-        headers: { 'Authorization': `Bearer ${this.apiKey}` }
-      });
+      const res = await this.getWithRetries('getEntryDetail', () => axios.get(url, {
+        headers: { 'Authorization': `Bearer ${this.apiKey}` },
+        timeout: getElviraConfig().requestTimeoutMs,
+        signal,
+      }), signal);
       return res.data;
     } catch (error) {
-      console.error(`[ElviraClient.getEntryDetail] Failed for catalogId: ${this.catalogId}, entryId: ${entryId}`);
+      console.error(`[ElviraClient.getEntryDetail] Failed for catalogId: ${catalogId}, entryId: ${entryId}`);
       this.handleApiError(error, 'getEntryDetail');
       throw error;
     }
@@ -126,7 +174,8 @@ export class ElviraClient {
     const url = `${this.baseUrl}/api/v1/users/me`;
     try {
       const res = await axios.get(url, {
-        headers: { 'Authorization': `Bearer ${this.apiKey}` }
+        headers: { 'Authorization': `Bearer ${this.apiKey}` },
+        timeout: getElviraConfig().requestTimeoutMs,
       });
 
       if (!res.data?.response || !res.data.response.id) {
@@ -149,7 +198,8 @@ export class ElviraClient {
     try {
       const res = await axios.get(url, {
         headers: { 'Authorization': `Bearer ${this.apiKey}` },
-        params: { page, limit }
+        params: { page, limit },
+        timeout: getElviraConfig().requestTimeoutMs,
       });
       return res.data.response;
     } catch (error) {
@@ -158,6 +208,41 @@ export class ElviraClient {
     }
   }
 
+  /**
+   * Send an idempotent GET, retrying backend failures with exponential backoff
+   * The outcome is recorded in the circuit breaker, an aborted request says nothing about the backend
+   */
+  private async getWithRetries<T>(context: string, send: () => Promise<T>, signal?: AbortSignal): Promise<T> {
+    const config = getElviraConfig();
+    for (let attempt = 0; ; attempt++) {
+      try {
+        const result = await send();
+        recordCircuitResult(false);
+        return result;
+      } catch (error) {
+        if (signal?.aborted) {
+          // Frees the breaker's trial slot without counting a failure
+          circuit.trialInFlight = false;
+          throw error;
+        }
+        const failed = isBackendFailure(error);
+        if (failed && attempt < config.retries) {
+          const delay = config.retryBaseMs * 2 ** attempt;
+          console.warn(`[ElviraClient.${context}] Attempt ${attempt + 1} failed, retrying in ${delay} ms`);
+          try {
+            await sleep(delay, signal);
+          } catch (abortReason) {
+            circuit.trialInFlight = false;
+            throw abortReason;
+          }
+          continue;
+        }
+        recordCircuitResult(failed);
+        throw error;
+      }
+    }
+  }
+
   /**
    * Handle API errors with proper logging
    */
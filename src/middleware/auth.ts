@@ -98,9 +98,7 @@ export async function validateApiKey(
       return;
     }
 
-    const catalogId = (req.query?.catalogId || req.body?.catalogId) as string | undefined;
-
-    const elviraClient = new ElviraClient(apiKey, catalogId);
+    const elviraClient = new ElviraClient(apiKey);
     const user = await elviraClient.getCurrentUserInfo();
 
     if (!user || !user.id) {
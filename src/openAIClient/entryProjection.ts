@@ -0,0 +1,92 @@
+/**
+ * Trims Elvira entries down to the fields the model needs before they are sent as tool output
+ */
+
+export interface ProjectionOptions {
+    maxEntries: number;
+    summaryMaxLength: number;
+}
+
+export interface ProjectedEntry {
+    id: string;
+    catalog_id?: string;
+    title?: string;
+    authors?: string[];
+    year?: string;
+    summary?: string;
+    language?: string;
+}
+
+// Pagination fields worth keeping, so the model knows whether to ask for the next page
+const PAGINATION_KEYS = ['page', 'limit', 'total', 'total_pages', 'pages', 'count'];
+
+function stripHtml(text: string): string {
+    return text.replace(/<[^>]*>/g, ' ').replace(/\s+/g, ' ').trim();
+}
+
+function truncate(text: string, maxLength: number): string {
+    return text.length > maxLength ? `${text.substring(0, maxLength)}…` : text;
+}
+
+function projectAuthors(entry: any): string[] | undefined {
+    const authors = entry.authors ?? entry.contributors;
+    if (Array.isArray(authors)) {
+        const names = authors
+            .map((author: any) => typeof author === 'string' ? author : author?.name ?? author?.full_name)
+            .filter((name: unknown): name is string => typeof name === 'string' && name.length > 0);
+        return names.length > 0 ? names : undefined;
+    }
+    return typeof entry.author === 'string' && entry.author ? [entry.author] : undefined;
+}
+
+function projectYear(entry: any): string | undefined {
+    const date = entry.published_at ?? entry.year;
+    return date ? String(date).substring(0, 4) : undefined;
+}
+
+/**
+ * Keeps id, catalog_id, title, authors, year, a short summary and the language of an entry
+ */
+export function projectEntry(entry: any, summaryMaxLength: number): ProjectedEntry {
+    const summary = entry.summary ?? entry.description;
+    const language = entry.language_code ?? entry.language;
+
+    return {
+        id: entry.id,
+        catalog_id: entry.catalog_id ?? entry.catalog?.id,
+        title: entry.title,
+        authors: projectAuthors(entry),
+        year: projectYear(entry),
+        summary: typeof summary === 'string' && summary ? truncate(stripHtml(summary), summaryMaxLength) : undefined,
+        language: Array.isArray(language) ? language.join(', ') : language,
+    };
+}
+
+/**
+ * Projects a getEntries response to at most maxEntries entries with pagination info
+ * Responses without a recognizable entry list are returned unchanged
+ */
+export function projectEntries(result: any, options: ProjectionOptions): any {
+    const entries = Array.isArray(result?.items) ? result.items : Array.isArray(result?.response) ? result.response : null;
+    if (!entries) {
+        return result;
+    }
+
+    const projected: Record<string, any> = {
+        items: entries.slice(0, options.maxEntries).map((entry: any) => projectEntry(entry, options.summaryMaxLength)),
+    };
+
+    for (const source of [result, result.metadata, result.pagination]) {
+        for (const key of PAGINATION_KEYS) {
+            if (source && typeof source[key] === 'number' && projected[key] === undefined) {
+                projected[key] = source[key];
+            }
+        }
+    }
+
+    if (entries.length > options.maxEntries) {
+        projected.omitted = entries.length - options.maxEntries;
+    }
+
+    return projected;
+}
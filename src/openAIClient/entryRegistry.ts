@@ -0,0 +1,52 @@
+/**
+ * Entries seen in a chat (search results, displayed books) with the catalog each belongs to
+ * getEntryDetails resolves the catalog from here, so the model doesn't have to carry catalog ids around
+ */
+
+// Oldest entries are forgotten first, a long chat shouldn't grow the session snapshot without bound
+const MAX_ENTRIES = 1000;
+
+export class EntryRegistry {
+    private catalogs = new Map<string, string>();
+
+    constructor(catalogs: Record<string, string> = {}) {
+        this.rememberAll(catalogs);
+    }
+
+    public remember(entryId: string, catalogId: string): void {
+        if (!entryId || !catalogId) {
+            return;
+        }
+        // Re-insert so the Map stays ordered by last use
+        this.catalogs.delete(entryId);
+        this.catalogs.set(entryId, catalogId);
+
+        while (this.catalogs.size > MAX_ENTRIES) {
+            this.catalogs.delete(this.catalogs.keys().next().value as string);
+        }
+    }
+
+    public rememberAll(catalogs: Record<string, string>): void {
+        for (const [entryId, catalogId] of Object.entries(catalogs)) {
+            this.remember(entryId, catalogId);
+        }
+    }
+
+    /**
+     * Remembers the entries of a raw Elvira getEntries response
+     */
+    public rememberEntries(result: any): void {
+        const entries = Array.isArray(result?.items) ? result.items : Array.isArray(result?.response) ? result.response : [];
+        for (const entry of entries) {
+            this.remember(entry?.id, entry?.catalog_id ?? entry?.catalog?.id);
+        }
+    }
+
+    public getCatalogId(entryId: string): string | undefined {
+        return this.catalogs.get(entryId);
+    }
+
+    public toJSON(): Record<string, string> {
+        return Object.fromEntries(this.catalogs);
+    }
+}
@@ -1,100 +1,126 @@
 import { ResponseFunctionToolCall, ResponseInputItem } from "openai/resources/responses/responses";
 import { OpenAIClient } from "./openaiClient";
-import { EntryFilterOptions } from "../types";
+import { getToolLimitsConfig } from "../database/config";
+import { ToolDefinition, getToolDefinition, canUseTool } from "./toolRegistry";
 
-async function displayBooks(client: OpenAIClient, options: { books: Array<{ id: string; catalogId: string }> }) {
-    // Validate books array and that each book has catalogId
-    if (!options.books || options.books.length === 0) {
-        throw new Error('books array is required for displayBooks.');
-    }
-    for (const book of options.books) {
-        if (!book.catalogId) {
-            throw new Error(`catalogId is required for book ${book.id}. Extract it from the entry's catalog_id field.`);
-        }
+const MAX_EVENT_ARGUMENT_LENGTH = 100;
+
+/**
+ * Prepare tool arguments for progress events sent to the client
+ * Drops empty filters and truncates long strings
+ */
+function sanitizeArguments(options: Record<string, any>): Record<string, any> {
+    const sanitized: Record<string, any> = {};
+    for (const [key, value] of Object.entries(options || {})) {
+        if (value === null || value === undefined) continue;
+        sanitized[key] = typeof value === 'string' && value.length > MAX_EVENT_ARGUMENT_LENGTH
+            ? `${value.substring(0, MAX_EVENT_ARGUMENT_LENGTH)}…`
+            : value;
     }
-    
-    const bookIds = options.books.map(b => b.id);
-    const bookCatalogs: Record<string, string> = {};
-    options.books.forEach(book => {
-        bookCatalogs[book.id] = book.catalogId;
+    return sanitized;
+}
+
+/**
+ * Count the entries/books in a tool result, undefined if it is not a list
+ */
+function countResults(tool: ToolDefinition, options: any, result: any): number | undefined {
+    if (tool.countResults) return tool.countResults(options, result);
+    if (Array.isArray(result?.items)) return result.items.length;
+    if (Array.isArray(result?.response)) return result.response.length;
+    return undefined;
+}
+
+/**
+ * Run the handler, rejecting with a timeout error if it takes longer than the tool allows
+ * The handler's signal is aborted on timeout and when the turn is cancelled, so its requests stop too
+ * TOOL_TIMEOUTS overrides the tool's own timeout, TOOL_TIMEOUT_MS applies to tools without one
+ */
+function runWithTimeout(tool: ToolDefinition, client: OpenAIClient, options: any): Promise<any> {
+    const limits = getToolLimitsConfig();
+    const timeoutMs = limits.timeouts[tool.name] ?? tool.timeoutMs ?? limits.timeoutMs;
+    const controller = new AbortController();
+    const turnSignal = client.getAbortSignal();
+    const signal = turnSignal ? AbortSignal.any([controller.signal, turnSignal]) : controller.signal;
+
+    let timer: NodeJS.Timeout;
+    const timeout = new Promise<never>((_, reject) => {
+        timer = setTimeout(() => {
+            reject(new Error(`${tool.name} timed out after ${timeoutMs} ms`));
+            controller.abort();
+        }, timeoutMs);
     });
-    
-    client.displayBooksListener(bookIds, bookCatalogs);
-    return { success: true };
+    return Promise.race([tool.handler(client, options, signal), timeout]).finally(() => clearTimeout(timer));
 }
 
 /**
- * Extract filter options from function arguments
+ * Run a single function call, errors are returned as the call's output
  */
-function extractFilters(options: any): EntryFilterOptions | undefined {
-    const filters: EntryFilterOptions = {};
-    
-    if (options.title) filters.title = options.title;
-    if (options.summary) filters.summary = options.summary;
-    if (options.category_term) filters.category_term = options.category_term;
-    if (options.author) filters.author = options.author;
-    if (options.language_code) filters.language_code = options.language_code;
-    if (options.published_at__gte) filters.published_at__gte = options.published_at__gte;
-    if (options.published_at__lte) filters.published_at__lte = options.published_at__lte;
-    if (options.config__readium_enabled !== undefined) filters.config__readium_enabled = options.config__readium_enabled;
-    if (options.query) filters.query = options.query;
-    
-    return Object.keys(filters).length > 0 ? filters : undefined;
+async function handleFunctionCall(client: OpenAIClient, item: ResponseFunctionToolCall): Promise<ResponseInputItem> {
+    if (client.isCancelled()) {
+        return {
+            type: "function_call_output",
+            call_id: item.call_id,
+            output: JSON.stringify({ success: false, error: 'Cancelled by user' })
+        };
+    }
+    const options = JSON.parse(item.arguments);
+    const toolCall = { callId: item.call_id, name: item.name, arguments: sanitizeArguments(options) };
+    const startedAt = Date.now();
+    client.toolCallListener('tool_call_started', toolCall);
+    var result;
+    try {
+        // Tools the user may not use are treated as unknown, the model was not offered them
+        const tool = getToolDefinition(item.name);
+        const allowed = tool && canUseTool(tool, client.getToolAccess()) ? tool : undefined;
+        if (allowed) {
+            result = await runWithTimeout(allowed, client, options);
+        } else {
+            result = { success: false, error: "Unknown function call" };
+            console.log("Unknown function call:", item.name);
+        }
+        client.toolCallListener('tool_call_finished', {
+            ...toolCall,
+            durationMs: Date.now() - startedAt,
+            success: !!result && result.success !== false,
+            resultCount: allowed ? countResults(allowed, options, result) : undefined
+        });
+        return {
+            type: "function_call_output",
+            call_id: item.call_id,
+            output: JSON.stringify(result || {success: false, error: 'Unknown error occurred'})
+        };
+    } catch (error) {
+        console.error("Error handling function call:", error);
+        client.toolCallListener('tool_call_finished', {
+            ...toolCall,
+            durationMs: Date.now() - startedAt,
+            success: false
+        });
+        return {
+            type: "function_call_output",
+            call_id: item.call_id,
+            output: JSON.stringify({ success: false, error: error instanceof Error ? error.message : 'Unknown error occurred' })
+        };
+    }
 }
 
+/**
+ * Run the function calls of one model response, at most TOOL_MAX_CONCURRENCY at a time
+ * Outputs are returned in the order of the calls
+ */
 export async function handleFunctionCalls(client: OpenAIClient, functionCallStack: ResponseFunctionToolCall[]): Promise<ResponseInputItem[]> {
-    const output: ResponseInputItem[] = [];
-    for (const item of functionCallStack) {
-        const options = JSON.parse(item.arguments);
-        var result;
-        try {
-            switch (item.name) {
-                case "displayBooks":
-                    result = await displayBooks(client, options);
-                    break;
-                case "getEntries":
-                    const filters = extractFilters(options);
-                    result = await client.elviraClient.getEntries(options.page, options.limit, filters);
-                    break;
-                case "getEntryDetails":
-                    if (!options.catalogId) {
-                        throw new Error('catalogId is required for getEntryDetails. Extract it from the conversation history where this book was displayed, or search for the entry first to get its catalog_id.');
-                    }
-                    // Prevent using the same ID for both parameters (common mistake when using entryId as catalogId)
-                    if (options.id === options.catalogId) {
-                        throw new Error('catalogId cannot be the same as the entry id. The catalogId must be a catalog UUID (format: xxxxxxxx-xxxx-xxxx-xxxx-xxxxxxxxxxxx). If you have the Assistant Entry ID, first search for it using getEntries to find its catalog_id, then use that catalog_id here.');
-                    }
-                    // Validate catalogId format (should be a UUID)
-                    const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
-                    if (!uuidRegex.test(options.catalogId)) {
-                        throw new Error(`catalogId must be a valid UUID format (e.g., "xxxxxxxx-xxxx-xxxx-xxxx-xxxxxxxxxxxx"). Received: "${options.catalogId}". Extract the catalog_id from search results or conversation history.`);
-                    }
-                    const originalCatalogId = client.elviraClient.getCatalogId();
-                    client.elviraClient.setCatalogId(options.catalogId);
-                    try {
-                        result = await client.elviraClient.getEntryDetail(options.id);
-                    } finally {
-                        client.elviraClient.setCatalogId(originalCatalogId);
-                    }
-                    break;
-                default:
-                    result = { success: false, error: "Unknown function call" };
-                    console.log("Unknown function call:", item.name);
-                    break;
-            }
-            output.push({
-                type: "function_call_output",
-                call_id: item.call_id,
-                output: JSON.stringify(result || {success: false, error: 'Unknown error occurred'})
-            });
-        } catch (error) {
-            console.error("Error handling function call:", error);
-            output.push({
-                type: "function_call_output",
-                call_id: item.call_id,
-                output: JSON.stringify({ success: false, error: error instanceof Error ? error.message : 'Unknown error occurred' })
-            });
+    const { maxConcurrency } = getToolLimitsConfig();
+    const output: ResponseInputItem[] = new Array(functionCallStack.length);
+    let next = 0;
+
+    const worker = async () => {
+        while (next < functionCallStack.length) {
+            const index = next++;
+            output[index] = await handleFunctionCall(client, functionCallStack[index]);
         }
-    }
+    };
+
+    const workers = Math.min(Math.max(maxConcurrency, 1), functionCallStack.length);
+    await Promise.all(Array.from({ length: workers }, worker));
     return output;
 }
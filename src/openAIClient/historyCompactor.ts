@@ -0,0 +1,192 @@
+import { APIUserAbortError } from 'openai';
+import { ResponseInput, ResponseInputItem } from 'openai/resources/responses/responses';
+
+export interface CompactionOptions {
+    maxTokens: number;
+    keepRecentTurns: number;
+    toolOutputMaxChars: number;
+}
+
+// Rough estimate for mixed Slovak/English text and JSON, no tokenizer needed
+const CHARS_PER_TOKEN = 4;
+// Tool output length in the transcript sent for summarization
+const TRANSCRIPT_TOOL_OUTPUT_CHARS = 200;
+const SUMMARY_MARKER = /^\[Conversation summary - (\d+) earlier user message\(s\)\]/;
+const BOOK_CATALOGS_PATTERN = /\[Book Catalogs: (\{.*?\})\]/g;
+
+export const SUMMARY_INSTRUCTIONS = `Summarize the following conversation between a library user and a library assistant.
+Keep what the user was looking for, their preferences, the books discussed (titles, IDs) and any open questions.
+Write a short factual summary in the language of the conversation, without greetings or commentary.`;
+
+export function estimateTokens(items: ResponseInput): number {
+    return Math.ceil(JSON.stringify(items).length / CHARS_PER_TOKEN);
+}
+
+function isUserMessage(item: ResponseInputItem): boolean {
+    return 'role' in item && item.role === 'user';
+}
+
+function itemText(item: ResponseInputItem): string {
+    if (!('content' in item)) {
+        return '';
+    }
+    if (typeof item.content === 'string') {
+        return item.content;
+    }
+    return (item.content as any[]).map((part) => part.text ?? '').join('\n');
+}
+
+/**
+ * Number of user messages a synthetic summary item replaced, 0 for any other item
+ */
+export function summarizedUserMessages(item: ResponseInputItem): number {
+    if (!('role' in item) || item.role !== 'system') {
+        return 0;
+    }
+    const match = itemText(item).match(SUMMARY_MARKER);
+    return match ? parseInt(match[1], 10) : 0;
+}
+
+/**
+ * Index of the first item of the last keepRecentTurns turns (a turn starts with a user message)
+ * 0 if the history doesn't have more turns than that
+ */
+function findRecentTurnsStart(history: ResponseInput, keepRecentTurns: number): number {
+    let turns = 0;
+    for (let i = history.length - 1; i >= 0; i--) {
+        if (isUserMessage(history[i])) {
+            turns++;
+            if (turns === keepRecentTurns) {
+                return i;
+            }
+        }
+    }
+    return 0;
+}
+
+/**
+ * Collects bookId -> catalogId mappings from displayBooks calls and [Book Catalogs: ...] notes
+ * Follow-up questions about displayed books need their ids after the turns are summarized
+ */
+export function extractBookCatalogs(items: ResponseInput): Record<string, string> {
+    const bookCatalogs: Record<string, string> = {};
+
+    for (const item of items) {
+        if (item.type === 'function_call' && item.name === 'displayBooks') {
+            try {
+                const args = JSON.parse(item.arguments);
+                for (const book of args.books ?? []) {
+                    if (book.id && book.catalogId) {
+                        bookCatalogs[book.id] = book.catalogId;
+                    }
+                }
+            } catch (err) {
+                // Malformed arguments were already rejected when the call ran
+            }
+            continue;
+        }
+
+        for (const match of itemText(item).matchAll(BOOK_CATALOGS_PATTERN)) {
+            try {
+                Object.assign(bookCatalogs, JSON.parse(match[1]));
+            } catch (err) {
+                // Not valid JSON, nothing to keep
+            }
+        }
+    }
+
+    return bookCatalogs;
+}
+
+function truncateOutput(output: string, maxChars: number): string {
+    if (output.length <= maxChars) {
+        return output;
+    }
+    return JSON.stringify({ truncated: true, preview: output.substring(0, maxChars) });
+}
+
+/**
+ * Replaces long function_call_output payloads with a truncated preview
+ */
+function truncateToolOutputs(items: ResponseInput, maxChars: number): ResponseInput {
+    return items.map((item) => {
+        if (item.type !== 'function_call_output' || typeof item.output !== 'string') {
+            return item;
+        }
+        return { ...item, output: truncateOutput(item.output, maxChars) };
+    });
+}
+
+/**
+ * Renders history items as plain text for the summarization request
+ */
+function toTranscript(items: ResponseInput): string {
+    const lines: string[] = [];
+
+    for (const item of items) {
+        if (item.type === 'function_call') {
+            lines.push(`Tool call ${item.name}(${item.arguments})`);
+        } else if (item.type === 'function_call_output') {
+            const output = typeof item.output === 'string' ? item.output : JSON.stringify(item.output);
+            lines.push(`Tool result: ${output.substring(0, TRANSCRIPT_TOOL_OUTPUT_CHARS)}`);
+        } else if ('role' in item) {
+            const speaker = item.role === 'user' ? 'User' : item.role === 'assistant' ? 'Assistant' : 'Context';
+            lines.push(`${speaker}: ${itemText(item)}`);
+        }
+    }
+
+    return lines.join('\n');
+}
+
+/**
+ * Shrinks the history when its estimated size is over maxTokens
+ * First truncates tool outputs of older turns, then replaces the older turns with a summary
+ * The last keepRecentTurns turns are kept as they are
+ * Returns null if the history doesn't need compaction
+ */
+export async function compactHistory(
+    history: ResponseInput,
+    options: CompactionOptions,
+    summarize: (transcript: string) => Promise<string>
+): Promise<ResponseInput | null> {
+    if (estimateTokens(history) <= options.maxTokens) {
+        return null;
+    }
+
+    const recentStart = findRecentTurnsStart(history, options.keepRecentTurns);
+    if (recentStart === 0) {
+        return null;
+    }
+
+    const older = history.slice(0, recentStart);
+    const recent = history.slice(recentStart);
+
+    const truncated = [...truncateToolOutputs(older, options.toolOutputMaxChars), ...recent];
+    if (estimateTokens(truncated) <= options.maxTokens) {
+        return truncated;
+    }
+
+    let summary: string;
+    try {
+        summary = await summarize(toTranscript(older));
+    } catch (err) {
+        // A cancelled turn must not change the history
+        if (err instanceof APIUserAbortError) {
+            throw err;
+        }
+        // Keep the older turns, the summary is tried again on the next turn
+        console.error('Failed to summarize chat history, keeping older turns with truncated tool outputs:', err);
+        return truncated;
+    }
+
+    const userMessages = older.reduce((count, item) => count + (isUserMessage(item) ? 1 : 0) + summarizedUserMessages(item), 0);
+    let text = `[Conversation summary - ${userMessages} earlier user message(s)]\n${summary}`;
+
+    // The catalogs themselves stay in the session's entry registry
+    const bookIds = Object.keys(extractBookCatalogs(older));
+    if (bookIds.length > 0) {
+        text += `\n\n[Displayed ${bookIds.length} book(s) with IDs: ${bookIds.join(', ')}]`;
+    }
+
+    return [{ role: 'system', content: text }, ...recent];
+}
@@ -0,0 +1,32 @@
+import { ResponseInput, ResponseInputItem, Tool } from 'openai/resources/responses/responses';
+import { GenerationSettings } from '../database/config';
+
+/**
+ * One model call of a chat turn
+ * Input and output use the Responses API item format, which is also how chat history is stored
+ */
+export interface LLMRequest {
+    settings: GenerationSettings;
+    instructions: string;
+    input: ResponseInput;
+    tools: Tool[];
+    // 'none' makes the model answer with text even though tools are defined
+    toolChoice?: 'auto' | 'none';
+    signal?: AbortSignal;
+    // Streamed text, itemId is the id of the message item the text belongs to
+    onTextDelta: (itemId: string, delta: string) => void;
+}
+
+export interface LLMResponse {
+    // Assistant message and function_call items, appended to the chat history as they are
+    output: ResponseInputItem[];
+    tokensUsed: number;
+}
+
+/**
+ * A model backend the agent can talk to
+ */
+export interface LLMProvider {
+    readonly name: string;
+    createResponse(request: LLMRequest): Promise<LLMResponse>;
+}
@@ -1,33 +1,67 @@
-import OpenAI from 'openai';
 import { ResponseFunctionToolCall, ResponseInput, ResponseInputItem, ResponseOutputText } from 'openai/resources/responses/responses';
-import { getTools } from './tools';
+import { getTools, describeTools, ToolAccess, NO_TOOL_ACCESS } from './toolRegistry';
 import { handleFunctionCalls } from './functionHandler';
+import { LLMProvider } from './llmProvider';
+import { getLLMProvider } from './providers';
+import { GenerationSettings, getGenerationSettings, getCompactionConfig, getToolLimitsConfig } from '../database/config';
+import { TurnPrompt, renderPrompt, getActivePromptTemplate } from '../services/promptManager';
+import { compactHistory, summarizedUserMessages, SUMMARY_INSTRUCTIONS } from './historyCompactor';
+import { EntryRegistry } from './entryRegistry';
 import { ElviraClient } from '../elviraClient';
+import { ToolCallEventType, ToolCallInfo } from '../types';
+
+const CONTEXT_NOTE_PREFIX = '[Context]';
+
+/**
+ * Whether a history item is an entry context switch note
+ */
+function isContextNote(item: ResponseInputItem): boolean {
+    return 'role' in item && item.role === 'system' && typeof item.content === 'string' && item.content.startsWith(CONTEXT_NOTE_PREFIX);
+}
 
 export class OpenAIClient {
     private entryId: string | null;
     private catalogId: string | null = null;
-    private openai: OpenAI;
+    private provider: LLMProvider;
+    private generationSettings: GenerationSettings;
+    private prompt: TurnPrompt | null = null;
+    private toolAccess: ToolAccess = NO_TOOL_ACCESS;
     private chatHistory: ResponseInput;
+    // User message item of the current (or last) turn, where the turn's items start
+    private turnInput: ResponseInputItem | null = null;
     private messageListener: (message: string, msg_id?: string) => void;
     private lastTokensUsed: number = 0;
+    private abortController: AbortController | null = null;
+    private cancelled: boolean = false;
+    // Tool rounds and tool calls of the current turn, checked against getToolLimitsConfig
+    private toolRounds: number = 0;
+    private toolCalls: number = 0;
+    private warningListener: (message: string) => void;
     public userId: string;
     public displayBooksListener: (bookIds: string[], bookCatalogs?: Record<string, string>) => void;
     public chunkListener: (msg_id: string, chunk: string) => void;
+    public toolCallListener: (type: ToolCallEventType, toolCall: ToolCallInfo) => void;
     public elviraClient: ElviraClient;
+    // Catalogs of the entries seen in this chat
+    public readonly entries: EntryRegistry = new EntryRegistry();
 
     constructor(entryId: string | null, catalogId: string | null, listeners: {
         messageListener: (message: string, msg_id?: string) => void;
         displayBooksListener: (bookIds: string[], bookCatalogs?: Record<string, string>) => void;
         chunkListener: (msg_id: string, chunk: string) => void;
+        toolCallListener: (type: ToolCallEventType, toolCall: ToolCallInfo) => void;
+        warningListener: (message: string) => void;
     }, elviraClient: ElviraClient, userId: string) {
-        this.openai = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
+        this.provider = getLLMProvider();
+        this.generationSettings = getGenerationSettings();
         this.entryId = entryId;
         this.catalogId = catalogId;
         this.chatHistory = [];
         this.messageListener = listeners.messageListener;
         this.displayBooksListener = listeners.displayBooksListener;
         this.chunkListener = listeners.chunkListener;
+        this.toolCallListener = listeners.toolCallListener;
+        this.warningListener = listeners.warningListener;
         this.elviraClient = elviraClient;
         this.userId = userId;
     }
@@ -36,94 +70,70 @@ export class OpenAIClient {
         return this.chatHistory;
     }
 
-    private getSystemPrompt(): string {
-        return `You are Elvira, a helpful library assistant bot.
-
-Your role: Guide users in exploring library entries, summarizing them, and making recommendations.
-When recommending books, use the displayBooks function.
-Keep messages short and brief - answer only what was asked.
-
-Assistant Entry ID: ${this.entryId}
-Catalog ID: ${this.catalogId ?? "N/A - no entry context"}
-
-If an Entry ID is provided:
-- Focus responses on that specific entry and related content (might be refered to as book, article, item, entry or similar in the conversation)
-- Continue discussing it unless the user changes the topic
-- When user asks "What's the book about?", use getEntryDetails(entryId, catalogId) and return the response.
-- Assume it can be changed for every message, so always check the current entryId and catalogId before responding.
-
-Available Tools:
-- getEntryDetails(id, catalogId) – Get details for a specific entry. Requires both id and catalogId.
-- getEntries – Browse entries with pagination and filters. Returns entries with catalog_id field.
-- displayBooks(books) – Show books in UI. Each book must have {id, catalogId}.
-
-CRITICAL - CATALOG HANDLING:
-Never just list names or IDs of books, use displayBooks instead!
-When getEntries returns results, each entry has a "catalog_id" field containing the catalog UUID.
-When calling displayBooks, pass books array like: [{id: "book1", catalogId: "uuid-xxx"}, {id: "book2", catalogId: "uuid-yyy"}]
-
-IMPORTANT: Use the catalog_id UUID from the entry, NOT any slug or string identifier.
-Each book can belong to a different catalog. Extract the catalog_id UUID from the entry and pass it with that book's id.
-
-When user asks about a book:
-1. Find the book ID in conversation history
-2. Look for the logged message: "[Displayed X book(s) with IDs: ...] [Book Catalogs: {...}]"
-3. Parse the Book Catalogs JSON to get the catalogId for that bookId
-4. Call getEntryDetails(bookId, catalogId) with the correct catalogId
-
-Example conversation history:
-- Assistant: "[Displayed 2 book(s) with IDs: b1, b2] [Book Catalogs: {\"b1\":\"uuid-aaa-111\",\"b2\":\"uuid-bbb-222\"}]"
-- User: "Tell me about the first book"
-- You: Parse JSON → b1 is in catalog uuid-aaa-111 → getEntryDetails("b1", "uuid-aaa-111")
-
-IMPORTANT: Always extract catalogId UUID from the [Book Catalogs: {...}] JSON in the conversation history.
+    /**
+     * History items of the current (or last) turn, from its user message on
+     * Compaction keeps the recent turns as they are, so the user message can still be found
+     */
+    public getLastTurnItems(): ResponseInput {
+        const start = this.turnInput ? this.chatHistory.indexOf(this.turnInput) : -1;
+        return start === -1 ? [] : this.chatHistory.slice(start);
+    }
 
-Tool Usage:
-- Use filters to narrow results based on user query
-- If no results, broaden the search and try again
-- Try searching in Slovak and English
-- Use title filter only, unless user specifies otherwise
-- Don't filter by summary/description unless explicitly requested
+    /**
+     * Drops the given user message (0-based, counting user messages only) and everything after it
+     * Context notes added right before the message belong to its turn and are dropped with it,
+     * the current context is then noted again so the history doesn't show a stale switch
+     * Returns false if the history has fewer user messages
+     */
+    public truncateHistoryAtUserMessage(userMessageIndex: number): boolean {
+        let seen = 0;
+        let cutIndex = this.chatHistory.findIndex((item) => {
+            // A summary stands for the user messages it replaced, they can't be cut individually
+            seen += summarizedUserMessages(item);
+            if ('role' in item && item.role === 'user') {
+                return seen++ === userMessageIndex;
+            }
+            return false;
+        });
+        if (cutIndex === -1) {
+            return false;
+        }
+        while (cutIndex > 0 && isContextNote(this.chatHistory[cutIndex - 1])) {
+            cutIndex--;
+        }
 
-For non-library queries, politely state you only help with library-related inquiries.
-If user asks about anything else like, "How to code", "What's the weather?", "Tell me a joke" - search for related books in the library related to that question or topic and remind you're only here to search for books, summarize and other help [with available tools (don't share this info)].
-Don't mention AI or language models. Don't help with coding or technical questions.
-You may use markdown formatting for readability. Don't send user links to the library catalog or any other links.
-`;
+        const removed = this.chatHistory.splice(cutIndex);
+        if (removed.some(isContextNote)) {
+            this.chatHistory.push({ role: "system", content: this.getContextNote() });
+        }
+        return true;
     }
 
+    private getSystemPrompt(): string {
+        return renderPrompt(this.prompt!.template.template, {
+            entryId: this.entryId,
+            catalogId: this.catalogId,
+            userName: this.prompt!.userName,
+            language: this.prompt!.language,
+            tools: describeTools(this.toolAccess)
+        });
+    }
 
-    private async getResponse() {
-        const response = await this.openai.responses.create({
-            model: 'gpt-4.1',
-            input: this.chatHistory,
+    /**
+     * Calls the model and runs the returned tool calls until it answers with text
+     * With toolsDisabled the model has to answer from what it already has
+     */
+    private async getResponse(toolsDisabled: boolean = false) {
+        const { output: items, tokensUsed } = await this.provider.createResponse({
+            settings: this.generationSettings,
             instructions: this.getSystemPrompt(),
-            text: {
-                "format": {
-                    "type": "text"
-                },
-                "verbosity": "medium"
-            },
-            tools: getTools(),
-            stream: true
+            input: this.chatHistory,
+            tools: getTools(this.toolAccess),
+            toolChoice: toolsDisabled ? 'none' : 'auto',
+            signal: this.abortController?.signal,
+            onTextDelta: (itemId, delta) => this.chunkListener(itemId, delta)
         });
-
-        let items: ResponseInputItem[] = [];
-
-        for await (const chunk of response) {
-            if (chunk.type == "response.output_text.delta") {
-                if ('delta' in chunk) {
-                    this.chunkListener(chunk.item_id, chunk.delta);
-                }
-            }
-            else if (chunk.type == "response.completed") {
-                items.push(...chunk.response.output);
-                // Track token usage from the completed response
-                if (chunk.response.usage) {
-                    this.lastTokensUsed += chunk.response.usage.total_tokens || 0;
-                }
-            }
-        }
+        this.lastTokensUsed += tokensUsed;
 
         this.chatHistory.push(...items);
 
@@ -149,18 +159,54 @@ You may use markdown formatting for readability. Don't send user links to the li
         }
 
         if (functionCallStack.length > 0) {
-            const functionOutput = await handleFunctionCalls(this, functionCallStack as ResponseFunctionToolCall[]);
-            this.chatHistory.push(...functionOutput);
-            await this.getResponse();
+            const limits = getToolLimitsConfig();
+            const calls = functionCallStack as ResponseFunctionToolCall[];
+            const allowed = toolsDisabled ? 0 : Math.max(limits.maxCalls - this.toolCalls, 0);
+            const rejected = calls.slice(allowed);
+
+            this.toolRounds++;
+            this.toolCalls += Math.min(calls.length, allowed);
+
+            const functionOutput = allowed > 0 ? await handleFunctionCalls(this, calls.slice(0, allowed)) : [];
+            // Outputs are pushed even when cancelled so every function_call in history keeps its output
+            this.chatHistory.push(...functionOutput, ...rejected.map((call): ResponseInputItem => ({
+                type: "function_call_output",
+                call_id: call.call_id,
+                output: JSON.stringify({ success: false, error: "Tool call limit reached, answer with the information you already have" })
+            })));
+            if (this.cancelled) {
+                return;
+            }
+            if (toolsDisabled) {
+                // The model ignored tool_choice none, there is nothing left to do this turn
+                console.warn(`Model returned tool calls with tools disabled for user ${this.userId}`);
+                return;
+            }
+
+            const limitReached = rejected.length > 0 || this.toolRounds >= limits.maxRounds || this.toolCalls >= limits.maxCalls;
+            if (limitReached) {
+                console.warn(`Tool limit reached for user ${this.userId} after ${this.toolRounds} rounds and ${this.toolCalls} calls`);
+                this.warningListener(`Tool limit reached after ${this.toolRounds} rounds and ${this.toolCalls} calls, answering with the results found so far`);
+            }
+            await this.getResponse(limitReached);
         }
 
     }
 
-    public async chat(message: string) {
+    /**
+     * Runs one user turn, settings default to the LLM_* configuration and the prompt to the active template
+     * Tools that require permissions are only offered when access grants them
+     */
+    public async chat(message: string, settings: GenerationSettings = getGenerationSettings(), prompt?: TurnPrompt, access: ToolAccess = NO_TOOL_ACCESS) {
         // Reset token counter for this interaction
         this.lastTokensUsed = 0;
+        this.toolRounds = 0;
+        this.toolCalls = 0;
+        this.generationSettings = settings;
+        this.toolAccess = access;
+        this.prompt = prompt ?? { template: await getActivePromptTemplate() };
         
-        this.chatHistory.push({
+        this.turnInput = {
             role: "user",
             content: [
                 {
@@ -168,19 +214,141 @@ You may use markdown formatting for readability. Don't send user links to the li
                     text: message
                 }
             ]
+        };
+        this.chatHistory.push(this.turnInput);
+
+        this.cancelled = false;
+        this.abortController = new AbortController();
+        try {
+            await this.compactHistory();
+            await this.getResponse();
+        } catch (err) {
+            // Aborting the stream rejects with APIUserAbortError - a cancelled turn is not a failure
+            if (!this.cancelled) {
+                throw err;
+            }
+        } finally {
+            this.abortController = null;
+        }
+    }
+
+    /**
+     * Summarizes older turns when the history grows over the configured size
+     */
+    private async compactHistory() {
+        const config = getCompactionConfig();
+        if (!config.enabled) {
+            return;
+        }
+
+        const compacted = await compactHistory(this.chatHistory, config, (transcript) => this.summarize(transcript));
+        if (compacted) {
+            console.log(`Compacted chat history of user ${this.userId} from ${this.chatHistory.length} to ${compacted.length} items`);
+            this.chatHistory = compacted;
+        }
+    }
+
+    /**
+     * Asks the model for a summary of a conversation transcript, without tools
+     */
+    private async summarize(transcript: string): Promise<string> {
+        const { output, tokensUsed } = await this.provider.createResponse({
+            settings: this.generationSettings,
+            instructions: SUMMARY_INSTRUCTIONS,
+            input: [{ role: 'user', content: transcript }],
+            tools: [],
+            signal: this.abortController?.signal,
+            onTextDelta: () => {}
         });
-        await this.getResponse();
+        this.lastTokensUsed += tokensUsed;
+
+        return output
+            .flatMap((item) => item.type === 'message' ? item.content as ResponseOutputText[] : [])
+            .map((content) => content.text)
+            .join('\n');
+    }
+
+    /**
+     * Cancels the in-flight chat turn (OpenAI stream and pending tool calls)
+     * Returns false if there was nothing to cancel
+     */
+    public cancel(): boolean {
+        if (!this.abortController) {
+            return false;
+        }
+        this.cancelled = true;
+        this.abortController.abort();
+        return true;
+    }
+
+    public isCancelled(): boolean {
+        return this.cancelled;
+    }
+
+    /**
+     * Aborted when the current turn is cancelled, undefined between turns
+     */
+    public getAbortSignal(): AbortSignal | undefined {
+        return this.abortController?.signal;
     }
 
     public setEntryId(entryId: string | null) {
         this.entryId = entryId;
     }
 
+    /**
+     * Switches the entry (and catalog) the user is viewing
+     * A note is added to the history, so the model knows from which turn on the new entry applies
+     * Returns the note, or null if the context didn't change
+     */
+    public switchEntryContext(entryId: string | null, catalogId: string | null): string | null {
+        if (entryId === this.entryId && catalogId === this.catalogId) {
+            return null;
+        }
+        this.entryId = entryId;
+        this.catalogId = catalogId;
+
+        const note = this.getContextNote();
+        this.chatHistory.push({ role: "system", content: note });
+        return note;
+    }
+
+    private getContextNote(): string {
+        return this.entryId
+            ? `${CONTEXT_NOTE_PREFIX} The user is now viewing entry ${this.entryId} in catalog ${this.catalogId ?? 'unknown'}.`
+            : `${CONTEXT_NOTE_PREFIX} The user is no longer viewing an entry.`;
+    }
+
     public getEntryId(): string | null {
         return this.entryId;
     }
 
+    /**
+     * Tool access of the current (or last) turn
+     */
+    public getToolAccess(): ToolAccess {
+        return this.toolAccess;
+    }
+
+    public getCatalogId(): string | null {
+        return this.catalogId;
+    }
+
     public getLastTokensUsed(): number {
         return this.lastTokensUsed;
     }
+
+    /**
+     * Model of the current (or last) turn
+     */
+    public getModel(): string {
+        return this.generationSettings.model;
+    }
+
+    /**
+     * System prompt version of the current (or last) turn
+     */
+    public getPromptVersion(): string | undefined {
+        return this.prompt?.template.version;
+    }
 }
@@ -0,0 +1,182 @@
+import OpenAI from 'openai';
+import { randomUUID } from 'crypto';
+import {
+    ChatCompletionAssistantMessageParam,
+    ChatCompletionFunctionTool,
+    ChatCompletionMessageParam
+} from 'openai/resources/chat/completions/completions';
+import {
+    ResponseFunctionToolCall,
+    ResponseInput,
+    ResponseInputItem,
+    ResponseOutputMessage,
+    Tool
+} from 'openai/resources/responses/responses';
+import { LLMProvider, LLMRequest, LLMResponse } from '../llmProvider';
+
+/**
+ * Joins the text parts of a Responses message content
+ */
+function contentToText(content: unknown): string {
+    if (typeof content === 'string') {
+        return content;
+    }
+    if (!Array.isArray(content)) {
+        return '';
+    }
+    return content
+        .map((part: any) => part.text ?? part.refusal ?? '')
+        .filter((text: string) => text.length > 0)
+        .join('\n');
+}
+
+/**
+ * Converts the Responses-format chat history to Chat Completions messages
+ * Consecutive function calls are grouped into one assistant message, as Chat Completions expects
+ */
+function toChatMessages(instructions: string, input: ResponseInput): ChatCompletionMessageParam[] {
+    const messages: ChatCompletionMessageParam[] = [{ role: 'system', content: instructions }];
+    // Assistant message the following function calls are attached to
+    let toolCallMessage: ChatCompletionAssistantMessageParam | null = null;
+
+    for (const item of input as any[]) {
+        if (item.type === 'function_call') {
+            if (!toolCallMessage) {
+                toolCallMessage = { role: 'assistant', content: null, tool_calls: [] };
+                messages.push(toolCallMessage);
+            }
+            toolCallMessage.tool_calls!.push({
+                id: item.call_id,
+                type: 'function',
+                function: { name: item.name, arguments: item.arguments }
+            });
+            continue;
+        }
+
+        if (item.type === 'reasoning') {
+            continue;
+        }
+
+        toolCallMessage = null;
+
+        if (item.type === 'function_call_output') {
+            messages.push({ role: 'tool', tool_call_id: item.call_id, content: contentToText(item.output) });
+        } else if (item.role === 'assistant') {
+            const assistantMessage: ChatCompletionAssistantMessageParam = { role: 'assistant', content: contentToText(item.content) };
+            messages.push(assistantMessage);
+            // Function calls the model made together with this text
+            toolCallMessage = assistantMessage;
+            assistantMessage.tool_calls = [];
+        } else if (item.role === 'user') {
+            messages.push({ role: 'user', content: contentToText(item.content) });
+        } else if (item.role === 'system' || item.role === 'developer') {
+            messages.push({ role: 'system', content: contentToText(item.content) });
+        }
+        // Other Responses-only items have no Chat Completions equivalent
+    }
+
+    // Servers reject an empty tool_calls array
+    for (const message of messages) {
+        if (message.role === 'assistant' && message.tool_calls?.length === 0) {
+            delete message.tool_calls;
+        }
+    }
+
+    return messages;
+}
+
+function toChatTools(tools: Tool[]): ChatCompletionFunctionTool[] {
+    return tools
+        .filter((tool) => tool.type === 'function')
+        .map((tool: any) => ({
+            type: 'function',
+            function: {
+                name: tool.name,
+                description: tool.description ?? undefined,
+                parameters: tool.parameters ?? undefined
+            }
+        }));
+}
+
+/**
+ * OpenAI-compatible Chat Completions API, e.g. a self-hosted vLLM or Ollama server
+ * Output is converted back to Responses items so the chat history keeps a single format
+ */
+export class ChatCompletionsProvider implements LLMProvider {
+    public readonly name = 'chat-completions';
+    private openai: OpenAI;
+
+    constructor(apiKey?: string, baseURL?: string) {
+        // Self-hosted servers usually don't check the key, but the SDK requires one
+        this.openai = new OpenAI({ apiKey: apiKey || 'none', baseURL });
+    }
+
+    async createResponse(request: LLMRequest): Promise<LLMResponse> {
+        const tools = toChatTools(request.tools);
+        const stream = await this.openai.chat.completions.create({
+            // Verbosity is Responses-only, most compatible servers reject unknown parameters
+            model: request.settings.model,
+            temperature: request.settings.temperature,
+            messages: toChatMessages(request.instructions, request.input),
+            tools: tools.length > 0 ? tools : undefined,
+            tool_choice: tools.length > 0 ? request.toolChoice : undefined,
+            stream: true,
+            stream_options: { include_usage: true }
+        }, { signal: request.signal });
+
+        const messageId = `msg_${randomUUID().replace(/-/g, '')}`;
+        let text = '';
+        let tokensUsed = 0;
+        // Tool calls are streamed in fragments, keyed by their index
+        const toolCalls: Array<{ id?: string; name: string; arguments: string }> = [];
+
+        for await (const chunk of stream) {
+            if (chunk.usage) {
+                tokensUsed += chunk.usage.total_tokens || 0;
+            }
+
+            const delta = chunk.choices[0]?.delta;
+            if (!delta) continue;
+
+            if (delta.content) {
+                text += delta.content;
+                request.onTextDelta(messageId, delta.content);
+            }
+
+            for (const toolCall of delta.tool_calls ?? []) {
+                const call = toolCalls[toolCall.index] ??= { name: '', arguments: '' };
+                if (toolCall.id) call.id = toolCall.id;
+                if (toolCall.function?.name) call.name += toolCall.function.name;
+                if (toolCall.function?.arguments) call.arguments += toolCall.function.arguments;
+            }
+        }
+
+        const output: ResponseInputItem[] = [];
+
+        if (text.length > 0) {
+            const message: ResponseOutputMessage = {
+                type: 'message',
+                id: messageId,
+                role: 'assistant',
+                status: 'completed',
+                content: [{ type: 'output_text', text, annotations: [] }]
+            };
+            output.push(message);
+        }
+
+        for (const call of toolCalls.filter(Boolean)) {
+            const callId = call.id || `call_${randomUUID().replace(/-/g, '')}`;
+            const functionCall: ResponseFunctionToolCall = {
+                type: 'function_call',
+                id: `fc_${callId}`,
+                call_id: callId,
+                name: call.name,
+                arguments: call.arguments || '{}',
+                status: 'completed'
+            };
+            output.push(functionCall);
+        }
+
+        return { output, tokensUsed };
+    }
+}
@@ -0,0 +1,28 @@
+/**
+ * LLM provider factory - creates the provider selected by configuration
+ */
+import { LLMProvider } from '../llmProvider';
+import { getLLMConfig } from '../../database/config';
+import { OpenAIResponsesProvider } from './responsesProvider';
+import { ChatCompletionsProvider } from './chatCompletionsProvider';
+
+let llmProvider: LLMProvider | null = null;
+
+/**
+ * Get the configured LLM provider (LLM_PROVIDER=openai-responses|chat-completions)
+ */
+export function getLLMProvider(): LLMProvider {
+    if (!llmProvider) {
+        const config = getLLMConfig();
+        if (config.provider === 'chat-completions') {
+            console.log(`Using Chat Completions provider at ${config.baseURL ?? 'api.openai.com'}`);
+            llmProvider = new ChatCompletionsProvider(config.apiKey, config.baseURL);
+        } else {
+            console.log('Using OpenAI Responses provider');
+            llmProvider = new OpenAIResponsesProvider(config.apiKey, config.baseURL);
+        }
+    }
+    return llmProvider;
+}
+
+export { LLMProvider, LLMRequest, LLMResponse } from '../llmProvider';
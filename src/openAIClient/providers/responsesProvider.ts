@@ -0,0 +1,53 @@
+import OpenAI from 'openai';
+import { ResponseInputItem } from 'openai/resources/responses/responses';
+import { LLMProvider, LLMRequest, LLMResponse } from '../llmProvider';
+
+/**
+ * OpenAI Responses API
+ */
+export class OpenAIResponsesProvider implements LLMProvider {
+    public readonly name = 'openai-responses';
+    private openai: OpenAI;
+
+    constructor(apiKey?: string, baseURL?: string) {
+        this.openai = new OpenAI({ apiKey, baseURL });
+    }
+
+    async createResponse(request: LLMRequest): Promise<LLMResponse> {
+        const response = await this.openai.responses.create({
+            model: request.settings.model,
+            input: request.input,
+            instructions: request.instructions,
+            temperature: request.settings.temperature,
+            text: {
+                "format": {
+                    "type": "text"
+                },
+                "verbosity": request.settings.verbosity
+            },
+            tools: request.tools,
+            tool_choice: request.toolChoice,
+            stream: true
+        }, { signal: request.signal });
+
+        const output: ResponseInputItem[] = [];
+        let tokensUsed = 0;
+
+        for await (const chunk of response) {
+            if (chunk.type == "response.output_text.delta") {
+                if ('delta' in chunk) {
+                    request.onTextDelta(chunk.item_id, chunk.delta);
+                }
+            }
+            else if (chunk.type == "response.completed") {
+                output.push(...chunk.response.output);
+                // Track token usage from the completed response
+                if (chunk.response.usage) {
+                    tokensUsed += chunk.response.usage.total_tokens || 0;
+                }
+            }
+        }
+
+        return { output, tokensUsed };
+    }
+}
@@ -0,0 +1,82 @@
+import { Tool } from "openai/resources/responses/responses";
+import { OpenAIClient } from "./openaiClient";
+import { builtinTools } from "./tools";
+
+// What the user of the current turn is allowed to do, from their Elvira account
+export interface ToolAccess {
+    superuser: boolean;
+    permissions: string[];
+}
+
+export interface ToolRequirements {
+    superuser?: boolean;
+    // Elvira permissions the user needs, all of them
+    permissions?: string[];
+}
+
+/**
+ * A tool the model can call - schema, handler and limits in one place
+ */
+export interface ToolDefinition {
+    name: string;
+    description: string;
+    // JSON schema of the arguments, tools are strict so every property must be listed in required
+    parameters: Record<string, unknown>;
+    // Line for the tool list of the system prompt ({{tools}})
+    usage: string;
+    timeoutMs?: number;
+    requires?: ToolRequirements;
+    // signal is aborted when the tool times out or the turn is cancelled
+    handler: (client: OpenAIClient, args: any, signal: AbortSignal) => Promise<any>;
+    // Number of entries/books in the result for tool_call_finished events
+    countResults?: (args: any, result: any) => number | undefined;
+}
+
+export const NO_TOOL_ACCESS: ToolAccess = { superuser: false, permissions: [] };
+
+const registry = new Map<string, ToolDefinition>();
+
+export function registerTool(tool: ToolDefinition): void {
+    if (registry.has(tool.name)) {
+        throw new Error(`Tool ${tool.name} is already registered`);
+    }
+    registry.set(tool.name, tool);
+}
+
+export function getToolDefinition(name: string): ToolDefinition | undefined {
+    return registry.get(name);
+}
+
+export function canUseTool(tool: ToolDefinition, access: ToolAccess): boolean {
+    const { superuser, permissions } = tool.requires ?? {};
+    if (superuser && !access.superuser) {
+        return false;
+    }
+    return (permissions ?? []).every((permission) => access.superuser || access.permissions.includes(permission));
+}
+
+function availableTools(access: ToolAccess): ToolDefinition[] {
+    return [...registry.values()].filter((tool) => canUseTool(tool, access));
+}
+
+/**
+ * Tool schemas sent to the model, only the tools the user may use
+ */
+export function getTools(access: ToolAccess = NO_TOOL_ACCESS): Array<Tool> {
+    return availableTools(access).map((tool) => ({
+        type: "function",
+        name: tool.name,
+        description: tool.description,
+        strict: true,
+        parameters: tool.parameters
+    }));
+}
+
+/**
+ * Tool list for the system prompt, one line per tool
+ */
+export function describeTools(access: ToolAccess = NO_TOOL_ACCESS): string {
+    return availableTools(access).map((tool) => `- ${tool.usage}`).join('\n');
+}
+
+builtinTools.forEach(registerTool);
@@ -1,133 +1,245 @@
-import { Tool } from "openai/resources/responses/responses";
+import { ToolDefinition } from "./toolRegistry";
+import { OpenAIClient } from "./openaiClient";
+import { EntryFilterOptions } from "../types";
+import { getToolOutputConfig } from "../database/config";
+import { projectEntries } from "./entryProjection";
 
-export function getTools(): Array<Tool> {
-    return [
-        {
-            "type": "function",
-            "name": "getEntryDetails",
-            "description": "Elvira - Retrieve entry details using the provided ID and catalogId",
-            "strict": true,
-            "parameters": {
-                "type": "object",
-                "properties": {
-                    "id": {
-                        "type": "string",
-                        "description": "Unique identifier of the entry to retrieve details for"
-                    },
-                    "catalogId": {
-                        "type": "string",
-                        "description": "REQUIRED: Catalog UUID where this entry belongs. Extract from the displayBooks call or conversation history where this book was shown. Must be UUID format."
-                    }
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+// Leaves room for the ElviraClient retries of a slow request
+const ELVIRA_TIMEOUT_MS = 20000;
+
+/**
+ * Extract filter options from function arguments
+ */
+function extractFilters(options: any): EntryFilterOptions | undefined {
+    const filters: EntryFilterOptions = {};
+    
+    if (options.title) filters.title = options.title;
+    if (options.summary) filters.summary = options.summary;
+    if (options.category_term) filters.category_term = options.category_term;
+    if (options.author) filters.author = options.author;
+    if (options.language_code) filters.language_code = options.language_code;
+    if (options.published_at__gte) filters.published_at__gte = options.published_at__gte;
+    if (options.published_at__lte) filters.published_at__lte = options.published_at__lte;
+    if (options.config__readium_enabled !== undefined) filters.config__readium_enabled = options.config__readium_enabled;
+    if (options.query) filters.query = options.query;
+    
+    return Object.keys(filters).length > 0 ? filters : undefined;
+}
+
+/**
+ * Catalog of an entry: the one it was seen in, else the model's catalogId, else the chat's own entry context
+ */
+function resolveCatalogId(client: OpenAIClient, options: { id: string; catalogId?: string | null }): string {
+    const known = client.entries.getCatalogId(options.id);
+    if (known) {
+        return known;
+    }
+
+    if (options.catalogId) {
+        // Prevent using the same ID for both parameters (common mistake when using entryId as catalogId)
+        if (options.id === options.catalogId) {
+            throw new Error('catalogId cannot be the same as the entry id. The catalogId must be a catalog UUID (format: xxxxxxxx-xxxx-xxxx-xxxx-xxxxxxxxxxxx). Leave it null to look the entry up by id.');
+        }
+        // Validate catalogId format (should be a UUID)
+        if (!UUID_PATTERN.test(options.catalogId)) {
+            throw new Error(`catalogId must be a valid UUID format (e.g., "xxxxxxxx-xxxx-xxxx-xxxx-xxxxxxxxxxxx"). Received: "${options.catalogId}". Leave it null to look the entry up by id.`);
+        }
+        return options.catalogId;
+    }
+
+    const catalogId = client.getCatalogId();
+    if (catalogId && client.getEntryId() === options.id) {
+        return catalogId;
+    }
+
+    throw new Error(`The catalog of entry ${options.id} is not known. Search for the entry with getEntries first.`);
+}
+
+async function getEntryDetails(client: OpenAIClient, options: { id: string; catalogId?: string | null }, signal: AbortSignal) {
+    const catalogId = resolveCatalogId(client, options);
+    const result = await client.elviraClient.getEntryDetail(catalogId, options.id, signal);
+    client.entries.remember(options.id, catalogId);
+    return result;
+}
+
+/**
+ * Fetch entries and project them to the fields the model needs
+ * The page size is capped so no more entries are fetched than can be sent
+ */
+async function getEntries(client: OpenAIClient, options: any, signal: AbortSignal) {
+    const config = getToolOutputConfig();
+    const filters = extractFilters(options);
+    const limit = config.projectEntries ? Math.min(options.limit || config.maxEntries, config.maxEntries) : options.limit;
+
+    // Searches stay in the catalog of the chat's entry context, like the chat's catalogId
+    const result = await client.elviraClient.getEntries({ catalogId: client.getCatalogId(), page: options.page, limit, filters }, signal);
+    client.entries.rememberEntries(result);
+    if (!config.projectEntries) {
+        return result;
+    }
+
+    // Page numbers refer to the capped page size, the model needs it to ask for the next page
+    const projected = projectEntries(result, config);
+    return projected === result ? result : { ...projected, page: options.page, limit };
+}
+
+async function displayBooks(client: OpenAIClient, options: { books: Array<{ id: string; catalogId: string }> }) {
+    // Validate books array and that each book has catalogId
+    if (!options.books || options.books.length === 0) {
+        throw new Error('books array is required for displayBooks.');
+    }
+    for (const book of options.books) {
+        if (!book.catalogId && !client.entries.getCatalogId(book.id)) {
+            throw new Error(`catalogId is required for book ${book.id}. Extract it from the entry's catalog_id field.`);
+        }
+    }
+    
+    const bookIds = options.books.map(b => b.id);
+    const bookCatalogs: Record<string, string> = {};
+    options.books.forEach(book => {
+        // The catalog the entry was found in wins over what the model passed
+        bookCatalogs[book.id] = client.entries.getCatalogId(book.id) ?? book.catalogId;
+        client.entries.remember(book.id, bookCatalogs[book.id]);
+    });
+    
+    client.displayBooksListener(bookIds, bookCatalogs);
+    return { success: true };
+}
+
+/**
+ * Tools registered at startup, in the order they are offered to the model
+ */
+export const builtinTools: ToolDefinition[] = [
+    {
+        name: "getEntryDetails",
+        description: "Elvira - Retrieve entry details using the provided ID. The catalog is looked up from earlier results, catalogId is only needed for entries not seen in this conversation",
+        usage: "getEntryDetails(id, catalogId) – Get details for a specific entry. catalogId can be null for entries found or displayed earlier in the conversation.",
+        parameters: {
+            "type": "object",
+            "properties": {
+                "id": {
+                    "type": "string",
+                    "description": "Unique identifier of the entry to retrieve details for"
                 },
-                "required": [
-                    "id",
-                    "catalogId"
-                ],
-                "additionalProperties": false
-            }
+                "catalogId": {
+                    "type": ["string", "null"],
+                    "description": "Catalog UUID where this entry belongs, or null to look it up from entries found or displayed earlier in the conversation"
+                }
+            },
+            "required": [
+                "id",
+                "catalogId"
+            ],
+            "additionalProperties": false
         },
-        {
-            "type": "function",
-            "name": "getEntries",
-            "description": "Elvira - Retrieve entries with pagination and filtering support",
-            "strict": true,
-            "parameters": {
-                "type": "object",
-                "properties": {
-                    "page": {
-                        "type": "integer",
-                        "description": "Page number to retrieve, starting from 1"
-                    },
-                    "limit": {
-                        "type": "integer",
-                        "description": "Number of entries per page"
-                    },
-                    "title": {
-                        "type": ["string", "null"],
-                        "description": "Filter by title (unaccent, icontains)"
-                    },
-                    "summary": {
-                        "type": ["string", "null"],
-                        "description": "Filter by summary (unaccent, icontains)"
-                    },
-                    "category_term": {
-                        "type": ["string", "null"],
-                        "description": "Filter by category_term (exact)"
-                    },
-                    "author": {
-                        "type": ["string", "null"],
-                        "description": "Filter by author (exact)"
-                    },
-                    "language_code": {
-                        "type": ["string", "null"],
-                        "description": "Filter by language_code (exact)"
-                    },
-                    "published_at__gte": {
-                        "type": ["string", "null"],
-                        "description": "Filter by published date greater than or equal (ISO 8601 format)"
-                    },
-                    "published_at__lte": {
-                        "type": ["string", "null"],
-                        "description": "Filter by published date less than or equal (ISO 8601 format)"
-                    },
-                    "config__readium_enabled": {
-                        "type": ["boolean", "null"],
-                        "description": "Filter by readium enabled status"
-                    },
-                    "query": {
-                        "type": ["string", "null"],
-                        "description": "Filter by query (exact)"
-                    }
+        timeoutMs: ELVIRA_TIMEOUT_MS,
+        handler: getEntryDetails,
+        countResults: (args, result) => result ? 1 : 0
+    },
+    {
+        name: "getEntries",
+        description: "Elvira - Retrieve entries with pagination and filtering support",
+        usage: "getEntries – Browse entries with pagination and filters. Returns entries with catalog_id field.",
+        parameters: {
+            "type": "object",
+            "properties": {
+                "page": {
+                    "type": "integer",
+                    "description": "Page number to retrieve, starting from 1"
+                },
+                "limit": {
+                    "type": "integer",
+                    "description": "Number of entries per page, may be lowered - page numbers refer to the limit returned in the result"
+                },
+                "title": {
+                    "type": ["string", "null"],
+                    "description": "Filter by title (unaccent, icontains)"
+                },
+                "summary": {
+                    "type": ["string", "null"],
+                    "description": "Filter by summary (unaccent, icontains)"
                 },
-                "required": [
-                    "page",
-                    "limit",
-                    'title',
-                    'author',
-                    'summary',
-                    'category_term',
-                    'language_code',
-                    'published_at__gte',
-                    'published_at__lte',
-                    'config__readium_enabled',
-                    'query'
-                ],
-                "additionalProperties": false
-            }
+                "category_term": {
+                    "type": ["string", "null"],
+                    "description": "Filter by category_term (exact)"
+                },
+                "author": {
+                    "type": ["string", "null"],
+                    "description": "Filter by author (exact)"
+                },
+                "language_code": {
+                    "type": ["string", "null"],
+                    "description": "Filter by language_code (exact)"
+                },
+                "published_at__gte": {
+                    "type": ["string", "null"],
+                    "description": "Filter by published date greater than or equal (ISO 8601 format)"
+                },
+                "published_at__lte": {
+                    "type": ["string", "null"],
+                    "description": "Filter by published date less than or equal (ISO 8601 format)"
+                },
+                "config__readium_enabled": {
+                    "type": ["boolean", "null"],
+                    "description": "Filter by readium enabled status"
+                },
+                "query": {
+                    "type": ["string", "null"],
+                    "description": "Filter by query (exact)"
+                }
+            },
+            "required": [
+                "page",
+                "limit",
+                'title',
+                'author',
+                'summary',
+                'category_term',
+                'language_code',
+                'published_at__gte',
+                'published_at__lte',
+                'config__readium_enabled',
+                'query'
+            ],
+            "additionalProperties": false
         },
-        {
-            "type": "function",
-            "name": "displayBooks",
-            "description": "Display books in the UI. Each book must include its catalogId from the entry's catalog_id field.",
-            "strict": true,
-            "parameters": {
-                "type": "object",
-                "properties": {
-                    "books": {
-                        "type": "array",
-                        "items": {
-                            "type": "object",
-                            "properties": {
-                                "id": {
-                                    "type": "string",
-                                    "description": "Unique identifier of the book"
-                                },
-                                "catalogId": {
-                                    "type": "string",
-                                    "description": "Catalog UUID where this book belongs (from entry.catalog_id field - must be UUID, not slug)"
-                                }
+        timeoutMs: ELVIRA_TIMEOUT_MS,
+        handler: getEntries
+    },
+    {
+        name: "displayBooks",
+        description: "Display books in the UI. Each book must include its catalogId from the entry's catalog_id field.",
+        usage: "displayBooks(books) – Show books in UI. Each book must have {id, catalogId}.",
+        parameters: {
+            "type": "object",
+            "properties": {
+                "books": {
+                    "type": "array",
+                    "items": {
+                        "type": "object",
+                        "properties": {
+                            "id": {
+                                "type": "string",
+                                "description": "Unique identifier of the book"
                             },
-                            "required": ["id", "catalogId"],
-                            "additionalProperties": false
+                            "catalogId": {
+                                "type": "string",
+                                "description": "Catalog UUID where this book belongs (from entry.catalog_id field - must be UUID, not slug)"
+                            }
                         },
-                        "description": "Array of books with their catalog IDs"
-                    }
-                },
-                "required": [
-                    "books"
-                ],
-                "additionalProperties": false
-            }
-        }
-    ];
-}
+                        "required": ["id", "catalogId"],
+                        "additionalProperties": false
+                    },
+                    "description": "Array of books with their catalog IDs"
+                }
+            },
+            "required": [
+                "books"
+            ],
+            "additionalProperties": false
+        },
+        handler: displayBooks,
+        countResults: (args) => args.books?.length
+    }
+];
@@ -9,6 +9,14 @@ import {
   setUserBlocked,
   getDailyLimits
 } from '../accounts';
+import {
+  listPromptTemplates,
+  getPromptTemplate,
+  getActivePromptVersion,
+  activatePromptVersion,
+  renderPrompt
+} from '../services/promptManager';
+import { describeTools } from '../openAIClient/toolRegistry';
 
 const router = Router();
 
@@ -109,4 +117,68 @@ router.post('/users/block', adminAuth, async (req: AdminRequest, res: Response)
   }
 });
 
+/**
+ * GET /admin/prompts
+ * List system prompt versions and which one is active
+ */
+router.get('/prompts', adminAuth, async (req: AdminRequest, res: Response) => {
+  try {
+    const active = await getActivePromptVersion();
+    const prompts = listPromptTemplates().map((prompt) => ({
+      version: prompt.version,
+      updatedAt: prompt.updatedAt,
+      length: prompt.template.length,
+      active: prompt.version === active
+    }));
+    res.json({ active, prompts });
+  } catch (err) {
+    console.error('Error listing prompts:', err);
+    res.status(500).json({ error: 'Failed to list prompts' });
+  }
+});
+
+/**
+ * GET /admin/prompts/:version/preview
+ * Render a prompt version with sample variables (entryId, catalogId, userName, language query params)
+ */
+router.get('/prompts/:version/preview', adminAuth, async (req: AdminRequest, res: Response) => {
+  const { version } = req.params;
+  const prompt = getPromptTemplate(version);
+
+  if (!prompt) {
+    return res.status(404).json({ error: 'Prompt version not found' });
+  }
+
+  const rendered = renderPrompt(prompt.template, {
+    entryId: (req.query.entryId as string) || null,
+    catalogId: (req.query.catalogId as string) || null,
+    userName: req.query.userName as string,
+    language: req.query.language as string,
+    tools: describeTools()
+  });
+
+  res.json({ version, template: prompt.template, rendered });
+});
+
+/**
+ * POST /admin/prompts/:version/activate
+ * Use a prompt version for all new chat turns
+ */
+router.post('/prompts/:version/activate', adminAuth, async (req: AdminRequest, res: Response) => {
+  const { version } = req.params;
+
+  try {
+    const activation = await activatePromptVersion(version, req.adminUser?.id || null);
+
+    if (!activation) {
+      return res.status(404).json({ error: 'Prompt version not found' });
+    }
+
+    res.json({ success: true, activation });
+  } catch (err) {
+    console.error('Error activating prompt:', err);
+    res.status(500).json({ error: 'Failed to activate prompt' });
+  }
+});
+
 export default router;
@@ -1,20 +1,27 @@
-import { Router, Response } from 'express';
+import { Router, Request, Response } from 'express';
 import { v4 as uuidv4 } from 'uuid';
-import { AuthenticatedRequest } from '../types';
-import { validateSessionApiKey } from '../middleware/auth';
+import { AuthenticatedRequest, MessageQueueItem } from '../types';
+import { validateSessionApiKey, validateApiKey } from '../middleware/auth';
 import {
   createSession,
   getSession,
-  getMessageQueueLength,
-  getMessageAtIndex,
-  resumeSession
+  getMessageQueue,
+  resumeSession,
+  forkSession
 } from '../services/sessionManager';
-import { logMessage, getUser, initUser } from '../accounts';
+import { runChatTurn, cancelChatTurn, createTurnCollector, ChatTurnRequest } from '../services/chatTurn';
+import { getUser, initUser, getChatsByUser } from '../accounts';
 import { ElviraClient } from '../elviraClient';
-import { checkMessageQuota, recordMessageUsage } from '../services/dailyLimitManager';
 
 const router = Router();
 
+/**
+ * Writes a queued item as an SSE event, using its queue index as the event id
+ */
+function writeQueueItem(res: Response, index: number, item: MessageQueueItem): void {
+  res.write(`id: ${index}\ndata: ${JSON.stringify(item)}\n\n`);
+}
+
 /**
  * POST /api/startchat
  * Starts a new chat session
@@ -35,7 +42,7 @@ router.post('/startchat', async (req: AuthenticatedRequest, res: Response) => {
       return;
     }
 
-    const elviraClient = new ElviraClient(apiKey, catalogId);
+    const elviraClient = new ElviraClient(apiKey);
     const user = await elviraClient.getCurrentUserInfo();
 
     if (!user || !user.id) {
@@ -64,10 +71,11 @@ router.post('/startchat', async (req: AuthenticatedRequest, res: Response) => {
 /**
  * POST /api/sendchat
  * Sends a message in an existing chat session
- * Returns a Server-Sent Events stream
+ * Returns a Server-Sent Events stream, or a single JSON document
+ * when the body has stream: false or the client accepts only application/json
  */
 router.post('/sendchat', async (req, res: Response) => {
-  const { chatId, message, entryId, apiKey } = req.body;
+  const { chatId, message, entryId, catalogId, apiKey, stream, client, language } = req.body;
 
   if (!chatId || !message) {
     return res.status(400).json({ error: 'chatId and message are required' });
@@ -77,114 +85,201 @@ router.post('/sendchat', async (req, res: Response) => {
     return res.status(401).json({ error: 'API key required' });
   }
 
-  const chatSession = getSession(chatId);
-  if (!chatSession) {
-    return res.status(404).json({ error: 'Chat session not found' });
+  await respondWithChatTurn(req, res, { chatId, message, apiKey, entryId, catalogId, client, language }, stream);
+});
+
+/**
+ * POST /api/editmessage
+ * Replaces a previous user message with new text and answers it again
+ * The original message and everything after it are kept as an alternative branch
+ * Responds like /api/sendchat
+ */
+router.post('/editmessage', async (req, res: Response) => {
+  const { chatId, messageId, message, entryId, catalogId, apiKey, stream, client, language } = req.body;
+
+  if (!chatId || !messageId || !message) {
+    return res.status(400).json({ error: 'chatId, messageId and message are required' });
   }
 
-  // Check whether the user who owns this session is blocked
-  const owner = await getUser(chatSession.userId);
-  if (owner?.blocked) {
-    console.warn(`Blocked user attempted to send message in chat ${chatId}: ${chatSession.userId}`);
-    return res.status(403).json({ error: 'User is blocked' });
+  if (!apiKey) {
+    return res.status(401).json({ error: 'API key required' });
   }
 
-  // Check daily message quota before processing
-  const quotaCheck = await checkMessageQuota(chatSession.userId);
-  if (!quotaCheck.allowed) {
-    console.warn(`User ${chatSession.userId} exceeded daily message limit`);
-    return res.status(429).json({
-      error: 'Daily message limit exceeded',
-      remaining: quotaCheck.remaining,
-      limit: quotaCheck.limit,
-      resetAt: quotaCheck.resetAt
-    });
+  await respondWithChatTurn(req, res, { chatId, message, apiKey, entryId, catalogId, client, language, replace: { messageId } }, stream);
+});
+
+/**
+ * POST /api/regenerate
+ * Answers a user message again, the last one unless messageId is given
+ * The previous answers are kept as an alternative branch
+ * Responds like /api/sendchat
+ */
+router.post('/regenerate', async (req, res: Response) => {
+  const { chatId, messageId, entryId, catalogId, apiKey, stream, client, language } = req.body;
+
+  if (!chatId) {
+    return res.status(400).json({ error: 'chatId is required' });
   }
 
-  // Validate API key by checking user owns this chat
-  const elviraClient = new ElviraClient(apiKey);
-  let user;
-  try {
-    user = await elviraClient.getCurrentUserInfo();
-  } catch (err) {
-    return res.status(401).json({ error: 'Invalid API key' });
+  if (!apiKey) {
+    return res.status(401).json({ error: 'API key required' });
   }
 
-  if (!user || !user.id || user.id !== chatSession.userId) {
+  await respondWithChatTurn(req, res, { chatId, apiKey, entryId, catalogId, client, language, replace: { messageId } }, stream);
+});
+
+/**
+ * Runs a chat turn and responds with a Server-Sent Events stream,
+ * or a single JSON document when stream is false or the client accepts only application/json
+ */
+async function respondWithChatTurn(req: Request, res: Response, turn: ChatTurnRequest, stream?: boolean): Promise<void> {
+  // Accept headers listing JSON first (e.g. axios' application/json, text/plain, */*) still accept the stream
+  if (stream === false || !req.accepts('text/event-stream')) {
+    return sendChatAsJson(turn, res);
+  }
+
+  const { chatId } = turn;
+  let finished = false;
+
+  const rejection = await runChatTurn(turn, {
+    onStart: (chatSession) => {
+      // Set up Server-Sent Events
+      res.setHeader('Content-Type', 'text/event-stream');
+      res.setHeader('Cache-Control', 'no-cache');
+      res.setHeader('Connection', 'keep-alive');
+
+      // Client closed the tab or dropped the connection - stop generating and calling tools
+      res.on('close', () => {
+        if (!finished && chatSession.cancel()) {
+          console.log(`Client disconnected, cancelled chat turn ${chatId}`);
+        }
+      });
+    },
+    onItem: (item, index) => writeQueueItem(res, index, item),
+    onEnd: () => {
+      finished = true;
+      res.end();
+    }
+  });
+
+  if (rejection) {
+    res.status(rejection.status).json(rejection.body);
+  }
+}
+
+/**
+ * Non-streaming variant of a chat turn
+ * Runs the turn to completion and responds with the collected ChatTurnResult
+ */
+async function sendChatAsJson(turn: ChatTurnRequest, res: Response): Promise<void> {
+  const { chatId } = turn;
+  const collector = createTurnCollector(chatId);
+  let finished = false;
+
+  const rejection = await runChatTurn(turn, {
+    onStart: (chatSession) => {
+      // Client gave up waiting - stop generating and calling tools
+      res.on('close', () => {
+        if (!finished && chatSession.cancel()) {
+          console.log(`Client disconnected, cancelled chat turn ${chatId}`);
+        }
+      });
+    },
+    onItem: collector.onItem,
+    onEnd: () => {
+      finished = true;
+    }
+  });
+
+  if (rejection) {
+    res.status(rejection.status).json(rejection.body);
+    return;
+  }
+
+  res.status(collector.result.status === 'error' ? 500 : 200).json(collector.result);
+}
+
+/**
+ * GET /api/chatstream/:chatId
+ * Reconnects to the in-progress or last finished turn of a chat
+ * Replays items after the Last-Event-ID header (or lastEventId query param),
+ * or the whole turn if none is given, then follows the turn until it ends
+ */
+router.get('/chatstream/:chatId', validateApiKey, async (req: AuthenticatedRequest, res: Response) => {
+  const { chatId } = req.params;
+
+  const chatSession = getSession(chatId);
+  const queue = getMessageQueue(chatId);
+  if (!chatSession || !queue) {
+    return res.status(404).json({ error: 'Chat session not found' });
+  }
+
+  if (req.user?.id !== chatSession.userId) {
     return res.status(401).json({ error: 'Invalid API key - chat does not belong to this user' });
   }
 
-  // Set up Server-Sent Events
+  const lastEventId = parseInt((req.get('Last-Event-ID') ?? req.query.lastEventId ?? '') as string, 10);
+  const requestedIndex = Number.isNaN(lastEventId) ? queue.getTurnStart() : lastEventId + 1;
+  // Items of earlier turns may already be trimmed
+  const fromIndex = Math.max(requestedIndex, queue.firstIndex);
+
   res.setHeader('Content-Type', 'text/event-stream');
   res.setHeader('Cache-Control', 'no-cache');
   res.setHeader('Connection', 'keep-alive');
 
-  const startIndex = getMessageQueueLength(chatId);
+  for (let index = fromIndex; index < queue.length; index++) {
+    writeQueueItem(res, index, queue.at(index)!);
+  }
 
-  // Update entry ID if provided
-  if (entryId !== undefined) {
-    chatSession.setEntryId(entryId);
+  if (!queue.isTurnActive()) {
+    res.end();
+    return;
   }
 
-  console.log(`User@${chatId}:`, message);
-  const userMessage = await logMessage(chatId, 'user', message, { 
-    userId: chatSession.userId,
-    entryId: chatSession.getEntryId() || undefined
+  const unsubscribe = queue.subscribe((item, index) => {
+    writeQueueItem(res, index, item);
+    if (!queue.isTurnActive()) {
+      unsubscribe();
+      res.end();
+    }
   });
+  res.on('close', unsubscribe);
+});
 
-  try {
-    let finished = false;
-    let chatError: Error | null = null;
-
-    // Start the chat processing
-    chatSession
-      .chat(message)
-      .catch((err: Error) => {
-        chatError = err;
-      })
-      .then(async () => {
-        finished = true;
-        // Record usage after successful processing
-        const tokensUsed = chatSession.getLastTokensUsed();
-        
-        // Update the user message with the actual tokens used
-        if (userMessage && tokensUsed > 0) {
-          const { updateMessageTokens } = await import('../accounts');
-          await updateMessageTokens(userMessage.id, tokensUsed);
-        }
-        
-        const usageRecorded = await recordMessageUsage(chatSession.userId, message, tokensUsed);
-        if (!usageRecorded) {
-          console.warn(`Failed to record usage for user ${chatSession.userId}`);
-        }
-      });
+/**
+ * POST /api/cancelchat
+ * Cancels the response currently being generated in a chat session
+ */
+router.post('/cancelchat', async (req, res: Response) => {
+  const { chatId, apiKey } = req.body;
 
-    // Stream items as they appear in the message queue
-    let readIndex = startIndex;
-    while (!finished || getMessageQueueLength(chatId) > readIndex) {
-      while (getMessageQueueLength(chatId) > readIndex) {
-        const item = getMessageAtIndex(chatId, readIndex++);
-        if (item) {
-          res.write(`data: ${JSON.stringify(item)}\n\n`);
-        }
-      }
-      if (!finished) {
-        await new Promise((resolve) => setTimeout(resolve, 50));
-      }
-    }
+  if (!chatId) {
+    return res.status(400).json({ error: 'chatId is required' });
+  }
 
-    if (chatError) {
-      console.error(`Error in chat stream ${chatId}:`, chatError);
-      res.write(`data: ${JSON.stringify({ type: 'error', data: 'An error occurred' })}\n\n`);
-    } else {
-      res.write(`data: ${JSON.stringify({ type: 'done' })}\n\n`);
-    }
+  if (!apiKey) {
+    return res.status(401).json({ error: 'API key required' });
+  }
+
+  const chatSession = getSession(chatId);
+  if (!chatSession) {
+    return res.status(404).json({ error: 'Chat session not found' });
+  }
+
+  const elviraClient = new ElviraClient(apiKey);
+  let user;
+  try {
+    user = await elviraClient.getCurrentUserInfo();
   } catch (err) {
-    console.error(`Unexpected error in chat ${chatId}:`, err);
-    res.write(`data: ${JSON.stringify({ type: 'error', data: 'An unexpected error occurred' })}\n\n`);
-  } finally {
-    res.end();
+    return res.status(401).json({ error: 'Invalid API key' });
   }
+
+  if (!user || !user.id || user.id !== chatSession.userId) {
+    return res.status(401).json({ error: 'Invalid API key - chat does not belong to this user' });
+  }
+
+  const cancelled = cancelChatTurn(chatId, user.id);
+  res.json({ chatId, cancelled });
 });
 
 /**
@@ -211,7 +306,7 @@ router.post('/resumechat', async (req: AuthenticatedRequest, res: Response) => {
       return;
     }
 
-    const elviraClient = new ElviraClient(apiKey, catalogId);
+    const elviraClient = new ElviraClient(apiKey);
     const user = await elviraClient.getCurrentUserInfo();
 
     if (!user || !user.id) {
@@ -252,4 +347,73 @@ router.post('/resumechat', async (req: AuthenticatedRequest, res: Response) => {
   }
 });
 
+/**
+ * POST /api/forkchat
+ * Starts a new chat with a copy of an existing chat's history, up to and including messageId
+ * The original chat is left untouched
+ */
+router.post('/forkchat', async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { chatId, messageId, apiKey, entryId, catalogId } = req.body;
+
+    if (!chatId) {
+      res.status(400).json({ error: 'Chat ID required' });
+      return;
+    }
+
+    if (!apiKey) {
+      res.status(401).json({ error: 'API key required' });
+      return;
+    }
+
+    // catalogId is required ONLY when forking with an entryId
+    if (entryId && !catalogId) {
+      res.status(400).json({ error: 'Catalog ID required when forking chat with entry ID' });
+      return;
+    }
+
+    const elviraClient = new ElviraClient(apiKey);
+    const user = await elviraClient.getCurrentUserInfo();
+
+    if (!user || !user.id) {
+      res.status(401).json({ error: 'Invalid API key or user not found' });
+      return;
+    }
+
+    await initUser(user);
+
+    const localUser = await getUser(user.id);
+    if (localUser?.blocked) {
+      console.warn(`Blocked user attempted to fork chat: ${user.id}`);
+      res.status(403).json({ error: 'User is blocked' });
+      return;
+    }
+
+    // Verify the chat belongs to this user
+    const userChats = await getChatsByUser(user.id);
+    if (!userChats.some(chat => chat.chatId === chatId)) {
+      res.status(404).json({ error: 'Chat not found or does not belong to this user' });
+      return;
+    }
+
+    const forkedChatId = uuidv4();
+    console.log(`Forking chat ${chatId} into ${forkedChatId} for user ${user.id}`);
+    const fork = await forkSession(chatId, forkedChatId, messageId || null, entryId || null, catalogId || null, elviraClient, user.id);
+
+    if (!fork) {
+      res.status(404).json({ error: 'Message not found in chat' });
+      return;
+    }
+
+    res.json({
+      chatId: forkedChatId,
+      forkedFrom: chatId,
+      copiedMessages: fork.copiedMessages
+    });
+  } catch (err) {
+    console.error('Error forking chat:', err);
+    res.status(500).json({ error: 'Failed to fork chat session' });
+  }
+});
+
 export default router;
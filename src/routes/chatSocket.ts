@@ -0,0 +1,205 @@
+import { IncomingMessage, Server } from 'http';
+import { Duplex } from 'stream';
+import { WebSocketServer, WebSocket, RawData } from 'ws';
+import { ElviraClient } from '../elviraClient';
+import { User } from '../accounts';
+import { runChatTurn, cancelChatTurn, ChatTurnRequest } from '../services/chatTurn';
+
+export const CHAT_SOCKET_PATH = '/api/ws';
+
+// Messages a client can send over the socket
+type ClientMessage =
+  | { type: 'send'; chatId: string; message: string; entryId?: string | null; catalogId?: string | null }
+  | { type: 'edit'; chatId: string; messageId: string; message: string; entryId?: string | null; catalogId?: string | null }
+  | { type: 'regenerate'; chatId: string; messageId?: string; entryId?: string | null; catalogId?: string | null }
+  | { type: 'cancel'; chatId: string };
+
+/**
+ * Extracts the API key from the upgrade request (query param, Bearer token or x-api-key header)
+ * Browsers cannot set headers on WebSocket connections, so the query param is the common case
+ */
+function extractSocketApiKey(request: IncomingMessage, url: URL): string | undefined {
+  const queryKey = url.searchParams.get('apiKey');
+  if (queryKey) {
+    return queryKey;
+  }
+
+  const authHeader = request.headers.authorization;
+  if (authHeader && authHeader.toLowerCase().startsWith('bearer ')) {
+    return authHeader.split(' ')[1];
+  }
+
+  const headerKey = request.headers['x-api-key'];
+  if (typeof headerKey === 'string') {
+    return headerKey;
+  }
+
+  return undefined;
+}
+
+/**
+ * Refuses an upgrade request with a plain HTTP response
+ */
+function rejectUpgrade(socket: Duplex, status: number, reason: string): void {
+  socket.write(`HTTP/1.1 ${status} ${reason}\r\nConnection: close\r\n\r\n`);
+  socket.destroy();
+}
+
+function send(ws: WebSocket, payload: Record<string, any>): void {
+  if (ws.readyState === WebSocket.OPEN) {
+    ws.send(JSON.stringify(payload));
+  }
+}
+
+/**
+ * Handles an authenticated socket
+ * Several chats can run over one socket, every event carries its chatId
+ */
+function handleConnection(ws: WebSocket, apiKey: string, user: User, client?: string, language?: string): void {
+  // Chats with a turn started over this socket
+  const activeChats = new Set<string>();
+
+  const runTurn = async (turn: ChatTurnRequest): Promise<void> => {
+    const chatId = turn.chatId;
+    try {
+      const rejection = await runChatTurn({ ...turn, client, language }, {
+        onStart: () => {
+          activeChats.add(chatId);
+        },
+        onItem: (item, index) => send(ws, { chatId, id: index, ...item }),
+        onEnd: () => {
+          activeChats.delete(chatId);
+        }
+      });
+
+      if (rejection) {
+        send(ws, { type: 'rejected', chatId, httpStatus: rejection.status, ...rejection.body });
+      }
+    } catch (err) {
+      console.error(`Unexpected error in socket chat ${chatId}:`, err);
+      activeChats.delete(chatId);
+      send(ws, { type: 'error', chatId, data: 'An unexpected error occurred' });
+    }
+  };
+
+  send(ws, { type: 'ready', userId: user.id });
+
+  ws.on('message', async (raw: RawData) => {
+    let msg: ClientMessage;
+    try {
+      msg = JSON.parse(raw.toString());
+    } catch (err) {
+      send(ws, { type: 'error', data: 'Invalid JSON message' });
+      return;
+    }
+
+    if (!msg?.chatId) {
+      send(ws, { type: 'error', data: 'chatId is required' });
+      return;
+    }
+
+    switch (msg.type) {
+      case 'send': {
+        if (!msg.message) {
+          send(ws, { type: 'error', chatId: msg.chatId, data: 'message is required' });
+          return;
+        }
+
+        await runTurn({ chatId: msg.chatId, message: msg.message, apiKey, entryId: msg.entryId, catalogId: msg.catalogId });
+        break;
+      }
+      case 'edit': {
+        if (!msg.messageId || !msg.message) {
+          send(ws, { type: 'error', chatId: msg.chatId, data: 'messageId and message are required' });
+          return;
+        }
+
+        await runTurn({
+          chatId: msg.chatId,
+          message: msg.message,
+          apiKey,
+          entryId: msg.entryId,
+          catalogId: msg.catalogId,
+          replace: { messageId: msg.messageId }
+        });
+        break;
+      }
+      case 'regenerate': {
+        await runTurn({ chatId: msg.chatId, apiKey, entryId: msg.entryId, catalogId: msg.catalogId, replace: { messageId: msg.messageId } });
+        break;
+      }
+      case 'cancel': {
+        const cancelled = cancelChatTurn(msg.chatId, user.id);
+        if (cancelled === null) {
+          send(ws, { type: 'rejected', chatId: msg.chatId, httpStatus: 404, error: 'Chat session not found' });
+          return;
+        }
+        send(ws, { type: 'cancel_result', chatId: msg.chatId, cancelled });
+        break;
+      }
+      default:
+        const unknown = msg as { type?: unknown; chatId?: string };
+        send(ws, { type: 'error', chatId: unknown.chatId, data: `Unknown message type: ${unknown.type}` });
+        break;
+    }
+  });
+
+  // Same as closing an SSE stream - stop generating for every chat of this socket
+  const cancelActiveChats = (reason: string): void => {
+    for (const chatId of activeChats) {
+      if (cancelChatTurn(chatId, user.id)) {
+        console.log(`Socket ${reason}, cancelled chat turn ${chatId}`);
+      }
+    }
+    activeChats.clear();
+  };
+
+  ws.on('close', () => cancelActiveChats('closed'));
+
+  // Without a listener ws rethrows protocol errors (e.g. an unmasked frame) and the process exits
+  ws.on('error', (err) => {
+    console.error(`WebSocket error for user ${user.id}:`, err);
+    cancelActiveChats('failed');
+  });
+}
+
+/**
+ * Attaches the chat WebSocket endpoint to the HTTP server
+ * Clients authenticate with their API key during the upgrade
+ */
+export function attachChatSocket(server: Server): WebSocketServer {
+  const wss = new WebSocketServer({ noServer: true });
+
+  server.on('upgrade', async (request: IncomingMessage, socket: Duplex, head: Buffer) => {
+    // Node drops its own socket error listener on upgrade, a reset during authentication would crash the process
+    socket.on('error', (err) => {
+      console.error('WebSocket upgrade socket error:', err);
+    });
+
+    const url = new URL(request.url || '', 'http://localhost');
+    if (url.pathname !== CHAT_SOCKET_PATH) {
+      rejectUpgrade(socket, 404, 'Not Found');
+      return;
+    }
+
+    const apiKey = extractSocketApiKey(request, url);
+    if (!apiKey) {
+      rejectUpgrade(socket, 401, 'Unauthorized');
+      return;
+    }
+
+    let user: User;
+    try {
+      user = await new ElviraClient(apiKey).getCurrentUserInfo();
+    } catch (err) {
+      rejectUpgrade(socket, 401, 'Unauthorized');
+      return;
+    }
+
+    const client = url.searchParams.get('client') || undefined;
+    const language = url.searchParams.get('language') || undefined;
+    wss.handleUpgrade(request, socket, head, (ws) => handleConnection(ws, apiKey, user, client, language));
+  });
+
+  return wss;
+}
@@ -63,6 +63,7 @@ router.get('/chats', validateApiKey, async (req: AuthenticatedRequest, res: Resp
 /**
  * GET /user/chats/:chatId
  * Get full chat history for a specific chat
+ * With ?includeAlternatives=true, edited and regenerated messages are included (active: false)
  */
 router.get('/chats/:chatId', validateApiKey, async (req: AuthenticatedRequest, res: Response) => {
   try {
@@ -82,7 +83,8 @@ router.get('/chats/:chatId', validateApiKey, async (req: AuthenticatedRequest, r
       return;
     }
 
-    const messages = await getFullChatHistory(chatId);
+    const includeAlternatives = req.query.includeAlternatives === 'true';
+    const messages = await getFullChatHistory(chatId, includeAlternatives);
     
     res.json({ 
       chatId,
@@ -4,6 +4,8 @@ import cors from 'cors';
 import chatRoutes from './routes/chatRoutes';
 import adminRoutes from './routes/adminRoutes';
 import userRoutes from './routes/userRoutes';
+import { startSessionEviction } from './services/sessionManager';
+import { attachChatSocket } from './routes/chatSocket';
 
 const app = express();
 
@@ -26,9 +28,11 @@ app.get('/health', (req, res) => {
 
 export function startServer(): void {
   const PORT = process.env.PORT || 6045;
-  app.listen(PORT, () => {
+  startSessionEviction();
+  const server = app.listen(PORT, () => {
     console.log(`Server running on port ${PORT}`);
   });
+  attachChatSocket(server);
 }
 
 export { app };
@@ -0,0 +1,436 @@
+/**
+ * Chat Turn Service
+ * Runs one user message through a chat session, independent of the transport (SSE, WebSocket)
+ */
+import { OpenAIClient } from '../openAIClient/openaiClient';
+import { ElviraClient } from '../elviraClient';
+import { logMessage, getUser, updateMessageTokens, getChatHistory, supersedeMessages, Message, User } from '../accounts';
+import {
+  getSession,
+  getMessageQueue,
+  rehydrateSession,
+  persistSession,
+  persistTurnItems,
+  reloadSessionHistory,
+  syncSessionWithStore,
+  acquireTurnLock,
+  releaseTurnLock
+} from './sessionManager';
+import { checkMessageQuota, recordMessageUsage, getDailyUsage } from './dailyLimitManager';
+import { MessageQueueListener } from './messageQueue';
+import { getGenerationSettings, LLMRequestClass } from '../database/config';
+import { getActivePromptTemplate, TurnPrompt } from './promptManager';
+import { ToolCallInfo, UsageInfo } from '../types';
+
+export interface ChatTurnRequest {
+  chatId: string;
+  // May be omitted when replacing a message - its text is sent again (regenerate)
+  message?: string;
+  apiKey: string;
+  // Entry and catalog the user is viewing, omitted to keep the current ones
+  entryId?: string | null;
+  catalogId?: string | null;
+  // Edit or regenerate: the user message to replace, the last one if messageId is omitted
+  // It and everything after it are kept as an alternative branch
+  replace?: { messageId?: string };
+  // Calling client, 'widget' for the embedded anonymous widget
+  client?: string;
+  // Language the agent should reply in, defaults to the user's
+  language?: string;
+}
+
+export interface ChatTurnHandlers {
+  // Called once the turn is accepted, before any item is emitted
+  onStart: (session: OpenAIClient) => void;
+  // Called for every queued item of the turn, including the final done/error/cancelled
+  onItem: MessageQueueListener;
+  // Called after the final item, before the session is persisted
+  onEnd: () => void;
+}
+
+// Why a turn was not started, with the HTTP status and body to respond with
+export interface ChatTurnRejection {
+  status: number;
+  body: Record<string, any>;
+}
+
+// Whole turn collected into one document, for clients that don't stream
+export interface ChatTurnResult {
+  chatId: string;
+  status: 'done' | 'cancelled' | 'error';
+  messages: Array<{ text: string; msg_id?: string }>;
+  books: Array<{ id: string; catalogId?: string }>;
+  toolCalls: ToolCallInfo[];
+  usage: UsageInfo | null;
+  warnings: string[];
+  error?: string;
+}
+
+/**
+ * Creates an item listener that collects a turn into a ChatTurnResult
+ */
+export function createTurnCollector(chatId: string): { onItem: MessageQueueListener; result: ChatTurnResult } {
+  const result: ChatTurnResult = { chatId, status: 'done', messages: [], books: [], toolCalls: [], usage: null, warnings: [] };
+
+  const onItem: MessageQueueListener = (item) => {
+    switch (item.type) {
+      case 'message':
+        result.messages.push({ text: item.data as string, msg_id: item.msg_id });
+        break;
+      case 'entries':
+        for (const id of item.data as string[]) {
+          result.books.push({ id, catalogId: item.bookCatalogs?.[id] });
+        }
+        break;
+      case 'tool_call_finished':
+        result.toolCalls.push(item.tool!);
+        break;
+      case 'usage':
+        result.usage = item.usage!;
+        break;
+      case 'done':
+      case 'cancelled':
+        result.status = item.type;
+        break;
+      case 'warning':
+        result.warnings.push(item.data as string);
+        break;
+      case 'error':
+        result.status = 'error';
+        result.error = item.data as string;
+        break;
+      default:
+        // Chunks and tool_call_started only matter while streaming
+        break;
+    }
+  };
+
+  return { onItem, result };
+}
+
+/**
+ * Records token and message usage of a finished chat turn
+ * Also stores the tokens used on the user message that started the turn
+ */
+async function recordTurnUsage(userId: string, message: string, tokensUsed: number, userMessageId?: string): Promise<void> {
+  if (userMessageId && tokensUsed > 0) {
+    await updateMessageTokens(userMessageId, tokensUsed);
+  }
+
+  const usageRecorded = await recordMessageUsage(userId, message, tokensUsed);
+  if (!usageRecorded) {
+    console.warn(`Failed to record usage for user ${userId}`);
+  }
+}
+
+/**
+ * Picks the generation settings class of a turn
+ * Superusers come from Elvira, the widget client can only lower the class
+ */
+function resolveRequestClass(user: User, client?: string): LLMRequestClass {
+  if (user.is_superuser) {
+    return 'superuser';
+  }
+  return client === 'widget' ? 'widget' : 'default';
+}
+
+/**
+ * Finds an active user message of a chat, the last one if no id is given
+ * userMessageIndex is its position among the chat's active user messages
+ */
+async function findUserMessage(chatId: string, messageId?: string): Promise<{ message: Message; userMessageIndex: number } | null> {
+  const userMessages = (await getChatHistory(chatId)).filter((m) => m.sender === 'user');
+  const userMessageIndex = messageId
+    ? userMessages.findIndex((m) => m.id === messageId)
+    : userMessages.length - 1;
+
+  if (userMessageIndex === -1) {
+    return null;
+  }
+  return { message: userMessages[userMessageIndex], userMessageIndex };
+}
+
+/**
+ * Moves the replaced message and its answers to an alternative branch
+ * and drops them from the session history, so the turn continues from before it
+ * Returns false, with the history untouched, if the branch could not be stored
+ */
+async function branchFromMessage(chatId: string, chatSession: OpenAIClient, replaced: { message: Message; userMessageIndex: number }): Promise<boolean> {
+  const branchId = await supersedeMessages(chatId, replaced.message.id);
+  if (!branchId) {
+    console.error(`Chat ${chatId}: failed to move message ${replaced.message.id} to a branch`);
+    return false;
+  }
+  console.log(`Chat ${chatId}: message ${replaced.message.id} replaced, old branch kept as ${branchId}`);
+
+  if (!chatSession.truncateHistoryAtUserMessage(replaced.userMessageIndex)) {
+    // History doesn't line up with the stored messages - rebuild it from the active ones
+    await reloadSessionHistory(chatId);
+  }
+  return true;
+}
+
+// Entry and catalog the user is viewing
+interface EntryContext {
+  entryId: string | null;
+  catalogId: string | null;
+}
+
+/**
+ * Entry and catalog a request switches the session to
+ * Without a catalogId, a new entry takes the catalog it was seen in - never the previous entry's
+ * Returns null if the catalog of a new entry is not known
+ */
+function resolveEntryContext(
+  chatSession: OpenAIClient,
+  entryId: string | null | undefined,
+  catalogId: string | null | undefined
+): EntryContext | null {
+  const nextEntryId = entryId === undefined ? chatSession.getEntryId() : entryId || null;
+  if (catalogId) {
+    return { entryId: nextEntryId, catalogId };
+  }
+  if (!nextEntryId || nextEntryId === chatSession.getEntryId()) {
+    return { entryId: nextEntryId, catalogId: chatSession.getCatalogId() };
+  }
+
+  const knownCatalogId = chatSession.entries.getCatalogId(nextEntryId);
+  return knownCatalogId ? { entryId: nextEntryId, catalogId: knownCatalogId } : null;
+}
+
+/**
+ * Applies the entry/catalog context to the session and logs a change as a system message
+ */
+async function switchEntryContext(
+  chatId: string,
+  chatSession: OpenAIClient,
+  context: EntryContext
+): Promise<void> {
+  const note = chatSession.switchEntryContext(context.entryId, context.catalogId);
+  if (!note) {
+    return;
+  }
+
+  console.log(`Context@${chatId}:`, note);
+  await logMessage(chatId, 'system', note, {
+    userId: chatSession.userId,
+    entryId: context.entryId || undefined
+  });
+}
+
+/**
+ * The in-memory session of a chat, rebuilt from the database if it is not in memory
+ * (evicted while idle or lost in a restart), or the rejection if it can't be loaded
+ */
+async function loadSession(chatId: string, elviraClient: ElviraClient, user: User): Promise<OpenAIClient | ChatTurnRejection> {
+  const session = getSession(chatId);
+  if (session) {
+    return session;
+  }
+
+  try {
+    const rehydrated = await rehydrateSession(chatId, elviraClient, user);
+    return rehydrated ?? { status: 404, body: { error: 'Chat session not found' } };
+  } catch (err) {
+    console.error(`Failed to rehydrate chat session ${chatId}:`, err);
+    return { status: 503, body: { error: 'Chat session could not be loaded, try again later' } };
+  }
+}
+
+/**
+ * Validates the request and runs the chat turn, streaming its items to the handlers
+ * Resolves with a rejection if the turn could not be started, null once it has finished
+ */
+export async function runChatTurn(request: ChatTurnRequest, handlers: ChatTurnHandlers): Promise<ChatTurnRejection | null> {
+  const { chatId, apiKey, entryId, catalogId, replace } = request;
+
+  // Validate the API key first, so an invalid key is told apart from a missing chat
+  const elviraClient = new ElviraClient(apiKey);
+  let user;
+  try {
+    user = await elviraClient.getCurrentUserInfo();
+  } catch (err) {
+    return { status: 401, body: { error: 'Invalid API key' } };
+  }
+  if (!user || !user.id) {
+    return { status: 401, body: { error: 'Invalid API key' } };
+  }
+
+  const loaded = await loadSession(chatId, elviraClient, user);
+  if (!(loaded instanceof OpenAIClient)) {
+    return loaded;
+  }
+  let chatSession = loaded;
+
+  // Check whether the user who owns this session is blocked
+  const owner = await getUser(chatSession.userId);
+  if (owner?.blocked) {
+    console.warn(`Blocked user attempted to send message in chat ${chatId}: ${chatSession.userId}`);
+    return { status: 403, body: { error: 'User is blocked' } };
+  }
+
+  // Check daily message quota before processing
+  const quotaCheck = await checkMessageQuota(chatSession.userId);
+  if (!quotaCheck.allowed) {
+    console.warn(`User ${chatSession.userId} exceeded daily message limit`);
+    return {
+      status: 429,
+      body: {
+        error: 'Daily message limit exceeded',
+        remaining: quotaCheck.remaining,
+        limit: quotaCheck.limit,
+        resetAt: quotaCheck.resetAt
+      }
+    };
+  }
+
+  // Validate API key by checking user owns this chat
+  if (user.id !== chatSession.userId) {
+    return { status: 401, body: { error: 'Invalid API key - chat does not belong to this user' } };
+  }
+
+  let replaced: { message: Message; userMessageIndex: number } | null = null;
+  if (replace) {
+    replaced = await findUserMessage(chatId, replace.messageId);
+    if (!replaced) {
+      return { status: 404, body: { error: 'Message not found' } };
+    }
+  }
+
+  const message = request.message || replaced?.message.text;
+  if (!message) {
+    return { status: 400, body: { error: 'message is required' } };
+  }
+
+  const settings = getGenerationSettings(resolveRequestClass(user, request.client));
+  const prompt: TurnPrompt = {
+    template: await getActivePromptTemplate(),
+    userName: [user.name, user.surname].filter(Boolean).join(' ') || user.username,
+    language: request.language
+  };
+
+  // Only one turn per chat at a time - overlapping turns would corrupt the shared history and queue
+  // Taken after the ownership check, so other callers can't block the owner's chat
+  if (!(await acquireTurnLock(chatId))) {
+    console.warn(`Rejected concurrent message in chat ${chatId}`);
+    return {
+      status: 409,
+      body: { error: 'A response is already being generated for this chat', status: 'busy', chatId }
+    };
+  }
+
+  try {
+    // The session could have been evicted while the request was validated - continue with the current one
+    if (getSession(chatId) !== chatSession) {
+      const reloaded = await loadSession(chatId, elviraClient, user);
+      if (!(reloaded instanceof OpenAIClient)) {
+        return reloaded;
+      }
+    }
+    // Another replica may have served the chat since this one last did
+    chatSession = (await syncSessionWithStore(chatId))!;
+
+    // Resolved before anything is changed, an unknown catalog rejects the turn
+    const context = entryId !== undefined || catalogId !== undefined
+      ? resolveEntryContext(chatSession, entryId, catalogId)
+      : undefined;
+    if (context === null) {
+      return { status: 400, body: { error: 'Catalog ID required when entryId is provided' } };
+    }
+
+    // Before the stream starts, a failed branch can still be rejected
+    if (replaced && !(await branchFromMessage(chatId, chatSession, replaced))) {
+      return { status: 500, body: { error: 'Failed to replace the message' } };
+    }
+
+    handlers.onStart(chatSession);
+
+    const queue = getMessageQueue(chatId)!;
+
+    // Stream items as soon as they are pushed to the message queue
+    queue.beginTurn();
+    const unsubscribe = queue.subscribe(handlers.onItem);
+
+    let userMessage: Message | null = null;
+    try {
+      // Switch the entry context if provided, the switch is logged as a system event
+      if (context) {
+        await switchEntryContext(chatId, chatSession, context);
+      }
+
+      console.log(`User@${chatId}:`, message);
+      userMessage = await logMessage(chatId, 'user', message, {
+        userId: chatSession.userId,
+        entryId: chatSession.getEntryId() || undefined,
+        parentMessageId: replaced?.message.id,
+        model: settings.model
+      });
+
+      let chatError: unknown = null;
+      try {
+        await chatSession.chat(message, settings, prompt, { superuser: user.is_superuser, permissions: user.permissions || [] });
+      } catch (err) {
+        console.error(`Error in chat stream ${chatId}:`, err);
+        chatError = err;
+      }
+
+      // Record usage before ending the stream, so the client gets its remaining quota
+      const tokensUsed = chatSession.getLastTokensUsed();
+      try {
+        await recordTurnUsage(chatSession.userId, message, tokensUsed, userMessage?.id);
+        const usage = await getDailyUsage(chatSession.userId);
+        queue.push({
+          type: 'usage',
+          usage: {
+            model: settings.model,
+            tokensUsed,
+            remainingMessages: usage.messages.remaining,
+            remainingTokens: usage.tokens.remaining,
+            resetAt: usage.resetAt
+          }
+        });
+      } catch (err) {
+        console.error(`Failed to record usage for chat ${chatId}:`, err);
+      }
+
+      if (chatError) {
+        queue.endTurn({ type: 'error', data: 'An error occurred' });
+      } else {
+        queue.endTurn({ type: chatSession.isCancelled() ? 'cancelled' : 'done' });
+      }
+    } catch (err) {
+      // The stream has started, a failure around the model call still has to end it
+      console.error(`Chat turn ${chatId} failed:`, err);
+      if (queue.isTurnActive()) {
+        queue.endTurn({ type: 'error', data: 'An error occurred' });
+      }
+    } finally {
+      unsubscribe();
+      handlers.onEnd();
+    }
+
+    // Save the session so it survives eviction and can be served by other replicas
+    if (userMessage) {
+      await persistTurnItems(chatId, userMessage.id);
+    }
+    await persistSession(chatId);
+    return null;
+  } finally {
+    await releaseTurnLock(chatId);
+  }
+}
+
+/**
+ * Cancels the running turn of a chat on behalf of a user
+ * Returns null if the chat session is not active or not owned by the user
+ */
+export function cancelChatTurn(chatId: string, userId: string): boolean | null {
+  const chatSession = getSession(chatId);
+  if (!chatSession || chatSession.userId !== userId) {
+    return null;
+  }
+
+  const cancelled = chatSession.cancel();
+  console.log(`Cancel requested for chat ${chatId}: ${cancelled ? 'cancelled' : 'nothing in progress'}`);
+  return cancelled;
+}
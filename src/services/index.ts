@@ -8,9 +8,32 @@ export {
   getMessageAtIndex,
   terminateUserSessions,
   getUserSessionIds,
-  getActiveSessionCount
+  getActiveSessionCount,
+  evictIdleSessions,
+  startSessionEviction,
+  stopSessionEviction,
+  rehydrateSession,
+  persistSession,
+  persistTurnItems,
+  reloadSessionHistory,
+  forkSession,
+  acquireTurnLock,
+  releaseTurnLock,
+  isTurnLocked
 } from './sessionManager';
 
+export {
+  runChatTurn,
+  cancelChatTurn,
+  createTurnCollector
+} from './chatTurn';
+
+export {
+  getSessionStore,
+  InMemorySessionStore,
+  DatabaseSessionStore
+} from './sessionStore';
+
 export {
   checkMessageQuota,
   checkTokenQuota,
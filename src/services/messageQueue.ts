@@ -0,0 +1,121 @@
+/**
+ * Per-chat message queue
+ * Buffers streamed items for a chat and notifies subscribers as soon as an item is pushed
+ * Item indexes are stable and used as SSE event ids, so clients can resume a stream
+ * Items of earlier turns are trimmed when a turn ends, only the last turn is kept for replay
+ */
+import { EventEmitter } from 'events';
+import { MessageQueueItem } from '../types';
+
+export type MessageQueueListener = (item: MessageQueueItem, index: number) => void;
+
+export class MessageQueue {
+  private items: MessageQueueItem[] = [];
+  // Index of items[0] - grows as old items are trimmed
+  private offset = 0;
+  private emitter = new EventEmitter();
+  private turnStart = 0;
+  private turnActive = false;
+
+  /**
+   * startIndex continues the numbering of a queue restored from the session store
+   */
+  constructor(startIndex: number = 0) {
+    this.offset = startIndex;
+    this.turnStart = startIndex;
+    // Every open stream on the chat subscribes, don't warn about many listeners
+    this.emitter.setMaxListeners(0);
+  }
+
+  /**
+   * Appends an item and synchronously notifies all subscribers
+   */
+  push(item: MessageQueueItem): void {
+    this.items.push(item);
+    this.emitter.emit('item', item, this.length - 1);
+  }
+
+  /**
+   * Index the next pushed item will get (trimmed items are counted)
+   */
+  get length(): number {
+    return this.offset + this.items.length;
+  }
+
+  /**
+   * Index of the oldest item still held in the queue
+   */
+  get firstIndex(): number {
+    return this.offset;
+  }
+
+  at(index: number): MessageQueueItem | undefined {
+    if (index < this.offset) {
+      return undefined;
+    }
+    return this.items[index - this.offset];
+  }
+
+  /**
+   * Marks the start of a chat turn, returns the index of its first item
+   */
+  beginTurn(): number {
+    this.turnStart = this.length;
+    this.turnActive = true;
+    return this.turnStart;
+  }
+
+  /**
+   * Ends the current turn with a terminal item (done, error or cancelled)
+   * The turn is marked inactive before the item is emitted so subscribers can detect the end
+   */
+  endTurn(item: MessageQueueItem): void {
+    this.turnActive = false;
+    this.push(item);
+    this.trimBefore(this.turnStart);
+  }
+
+  /**
+   * Drops all items with an index lower than the given one
+   */
+  trimBefore(index: number): void {
+    if (index <= this.offset) {
+      return;
+    }
+    this.items.splice(0, index - this.offset);
+    this.offset = index;
+  }
+
+  isTurnActive(): boolean {
+    return this.turnActive;
+  }
+
+  /**
+   * Index of the first item of the current (or last finished) turn
+   */
+  getTurnStart(): number {
+    return this.turnStart;
+  }
+
+  /**
+   * Registers a listener for newly pushed items
+   * Returns a function that removes the listener
+   */
+  subscribe(listener: MessageQueueListener): () => void {
+    this.emitter.on('item', listener);
+    return () => {
+      this.emitter.off('item', listener);
+    };
+  }
+
+  /**
+   * Removes all subscribers, used when the session is torn down
+   * With finalItem, an active turn is ended first, so streams following it finish instead of waiting forever
+   */
+  close(finalItem?: MessageQueueItem): void {
+    if (finalItem && this.turnActive) {
+      this.endTurn(finalItem);
+    }
+    this.emitter.removeAllListeners();
+  }
+}
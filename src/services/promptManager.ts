@@ -0,0 +1,144 @@
+/**
+ * Prompt Manager
+ * Loads versioned system prompt templates (<version>.txt) and tracks which version is active
+ * Templates are read from disk on use, so new versions can be added without redeploying
+ */
+import fs from 'fs';
+import path from 'path';
+import { getDatabaseAdapter, PromptActivation } from '../database';
+import { getPromptConfig } from '../database/config';
+
+const BUNDLED_PROMPTS_DIR = path.join(__dirname, '..', 'prompts');
+const TEMPLATE_EXTENSION = '.txt';
+// Versions are file names - no path separators
+const VERSION_PATTERN = /^[\w.-]+$/;
+// How long the active version is cached before it is read again (other replicas may change it)
+const ACTIVE_VERSION_TTL_MS = 30 * 1000;
+
+export interface PromptTemplate {
+  version: string;
+  template: string;
+  updatedAt: string;
+}
+
+export interface PromptVariables {
+  entryId: string | null;
+  catalogId: string | null;
+  userName?: string;
+  language?: string;
+  libraryName?: string;
+  // Tool list from the tool registry
+  tools?: string;
+}
+
+// Template and per-user variables of a turn's system prompt
+export interface TurnPrompt {
+  template: PromptTemplate;
+  userName?: string;
+  language?: string;
+}
+
+let activeVersionCache: { version: string; loadedAt: number } | null = null;
+
+function getPromptsDir(): string {
+  return getPromptConfig().dir || BUNDLED_PROMPTS_DIR;
+}
+
+/**
+ * Get a prompt template by version, null if there is no such template
+ */
+export function getPromptTemplate(version: string): PromptTemplate | null {
+  if (!VERSION_PATTERN.test(version)) {
+    return null;
+  }
+
+  const file = path.join(getPromptsDir(), `${version}${TEMPLATE_EXTENSION}`);
+  try {
+    return {
+      version,
+      template: fs.readFileSync(file, 'utf-8'),
+      updatedAt: fs.statSync(file).mtime.toISOString(),
+    };
+  } catch (err) {
+    return null;
+  }
+}
+
+/**
+ * List all prompt templates, ordered by version
+ */
+export function listPromptTemplates(): PromptTemplate[] {
+  const files = fs.readdirSync(getPromptsDir()).filter((f) => f.endsWith(TEMPLATE_EXTENSION));
+
+  return files
+    .map((file) => getPromptTemplate(file.slice(0, -TEMPLATE_EXTENSION.length)))
+    .filter((template): template is PromptTemplate => template !== null)
+    .sort((a, b) => a.version.localeCompare(b.version, undefined, { numeric: true }));
+}
+
+/**
+ * Fill in the {{variable}} placeholders of a template
+ * Unknown variables are left as they are, so typos show up in previews
+ */
+export function renderPrompt(template: string, variables: PromptVariables): string {
+  const config = getPromptConfig();
+  const values: Record<string, string> = {
+    entryId: `${variables.entryId}`,
+    catalogId: variables.catalogId ?? 'N/A - no entry context',
+    userName: variables.userName || 'a library user',
+    language: variables.language || config.defaultLanguage,
+    libraryName: variables.libraryName || config.libraryName,
+    tools: variables.tools ?? '',
+  };
+
+  return template.replace(/\{\{\s*(\w+)\s*\}\}/g, (placeholder, name: string) => values[name] ?? placeholder);
+}
+
+/**
+ * Get the active prompt version, the configured default until an admin activates one
+ */
+export async function getActivePromptVersion(): Promise<string> {
+  if (activeVersionCache && Date.now() - activeVersionCache.loadedAt < ACTIVE_VERSION_TTL_MS) {
+    return activeVersionCache.version;
+  }
+
+  const activation = await getDatabaseAdapter().getActivePromptVersion();
+  const version = activation?.version || getPromptConfig().defaultVersion;
+  activeVersionCache = { version, loadedAt: Date.now() };
+  return version;
+}
+
+/**
+ * Get the active prompt template
+ * Falls back to the default version if the active template file was removed
+ */
+export async function getActivePromptTemplate(): Promise<PromptTemplate> {
+  const version = await getActivePromptVersion();
+  const template = getPromptTemplate(version);
+  if (template) {
+    return template;
+  }
+
+  const { defaultVersion } = getPromptConfig();
+  console.error(`Active prompt version ${version} not found, using ${defaultVersion}`);
+  const fallback = getPromptTemplate(defaultVersion);
+  if (!fallback) {
+    throw new Error(`Default prompt version ${defaultVersion} not found in ${getPromptsDir()}`);
+  }
+  return fallback;
+}
+
+/**
+ * Make a prompt version the active one for new chat turns
+ * Returns null if there is no template with that version
+ */
+export async function activatePromptVersion(version: string, activatedBy: string | null): Promise<PromptActivation | null> {
+  if (!getPromptTemplate(version)) {
+    return null;
+  }
+
+  const activation = await getDatabaseAdapter().activatePromptVersion(version, activatedBy);
+  activeVersionCache = { version, loadedAt: Date.now() };
+  console.log(`Prompt version ${version} activated by ${activatedBy}`);
+  return activation;
+}
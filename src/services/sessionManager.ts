@@ -1,11 +1,30 @@
+import { ResponseInputItem } from 'openai/resources/responses/responses';
 import { OpenAIClient } from '../openAIClient/openaiClient';
 import { ElviraClient } from '../elviraClient';
 import { MessageQueueItem, ChatSessionListeners } from '../types';
-import { clearChatHistory, createChat, logMessage, getFullChatHistory } from '../accounts';
+import { clearChatHistory, createChat, logMessage, getFullChatHistory, getChatsByUser, saveTurnItems, getTurnItems, User } from '../accounts';
+import { MessageQueue } from './messageQueue';
+import { getSessionConfig, getHistoryReplayConfig } from '../database/config';
+import { ChatSessionState } from '../database';
+import { getSessionStore } from './sessionStore';
+
+// Context needed to rebuild a session that was evicted from memory
+interface EvictedSessionContext {
+  userId: string;
+  entryId: string | null;
+  catalogId: string | null;
+}
 
 // In-memory stores for chat sessions and message queues
 const chatSessions: Record<string, OpenAIClient> = {};
-const messagesQueues: Record<string, MessageQueueItem[]> = {};
+const messagesQueues: Record<string, MessageQueue> = {};
+const sessionLastActivity: Record<string, number> = {};
+// Bounded like the memory session store, oldest evictions are forgotten first
+const evictedSessions = new Map<string, EvictedSessionContext>();
+// Chats with a turn being processed (from request validation until the stream ends)
+const turnLocks = new Set<string>();
+
+let evictionTimer: NodeJS.Timeout | null = null;
 
 /**
  * Creates a new chat session with the given ID
@@ -24,20 +43,57 @@ export async function createSession(
     console.error(`Failed to create chat ${chatId} in database for user ${userId}`);
   }
 
+  const session = buildSession(chatId, entryId, catalogId, elviraClient, userId);
+  
+  // Load chat history from database if requested
+  if (loadHistory) {
+    await loadChatHistoryIntoSession(chatId, session);
+  }
+  
+  registerSession(chatId, session);
+  await persistSession(chatId);
+
+  return session;
+}
+
+/**
+ * Restores a session from a stored snapshot, including its exact OpenAI chat history
+ */
+function restoreSession(state: ChatSessionState, elviraClient: ElviraClient): OpenAIClient {
+  const session = buildSession(state.chatId, state.entryId, state.catalogId, elviraClient, state.userId, state.queueOffset);
+  session.getChatHistory().push(...state.chatHistory);
+  session.entries.rememberAll(state.entryCatalogs || {});
+  registerSession(state.chatId, session);
+  return session;
+}
+
+/**
+ * Creates the message queue and OpenAI client of a session with listeners wired to the queue
+ */
+function buildSession(
+  chatId: string,
+  entryId: string | null,
+  catalogId: string | null,
+  elviraClient: ElviraClient,
+  userId: string,
+  queueOffset: number = 0
+): OpenAIClient {
   // Initialize message queue for this chat
-  messagesQueues[chatId] = [];
+  messagesQueues[chatId] = new MessageQueue(queueOffset);
 
   // Create listeners that push to the message queue
   const listeners: ChatSessionListeners = {
     messageListener: (message: string, msg_id?: string) => {
       console.log(`Agent@${chatId}:`, message);
-      messagesQueues[chatId].push({ type: 'message', data: message });
+      messagesQueues[chatId].push({ type: 'message', data: message, msg_id });
       // Log agent message to database with msg_id and entryId (fire and forget)
       const session = chatSessions[chatId];
       logMessage(chatId, 'agent', message, { 
         userId, 
         msg_id,
-        entryId: session?.getEntryId() || entryId || undefined
+        entryId: session?.getEntryId() || entryId || undefined,
+        model: session?.getModel(),
+        promptVersion: session?.getPromptVersion()
       }).catch((err) => {
         console.error(`Failed to log agent message for chat ${chatId}:`, err);
       });
@@ -45,41 +101,114 @@ export async function createSession(
     displayBooksListener: (bookIds: string[], bookCatalogs?: Record<string, string>) => {
       messagesQueues[chatId].push({ type: 'entries', data: bookIds, bookCatalogs });
       
-      const catalogInfo = bookCatalogs ? JSON.stringify(bookCatalogs) : '{}';
-      const messageText = `[Displayed ${bookIds.length} book(s) with IDs: ${bookIds.join(', ')}] [Book Catalogs: ${catalogInfo}]`;
+      // Catalogs are stored in their own column and kept in the session's entry registry, not in the text
+      const messageText = `[Displayed ${bookIds.length} book(s) with IDs: ${bookIds.join(', ')}]`;
       
       const session = chatSessions[chatId];
       logMessage(chatId, 'agent', messageText, { 
         userId, 
         bookIds, 
         bookCatalogs,
-        entryId: session?.getEntryId() || entryId || undefined
+        entryId: session?.getEntryId() || entryId || undefined,
+        model: session?.getModel(),
+        promptVersion: session?.getPromptVersion()
       }).catch((err) => {
         console.error(`Failed to log book display for chat ${chatId}:`, err);
       });
     },
     chunkListener: (msg_id: string, chunk: string) => {
       messagesQueues[chatId].push({ type: 'chunk', data: chunk, msg_id });
+    },
+    toolCallListener: (type, toolCall) => {
+      messagesQueues[chatId].push({ type, tool: toolCall });
+    },
+    warningListener: (message: string) => {
+      messagesQueues[chatId].push({ type: 'warning', data: message });
     }
   };
 
-  const session = new OpenAIClient(entryId, catalogId, listeners, elviraClient, userId);
-  
-  // Load chat history from database if requested
-  if (loadHistory) {
-    await loadChatHistoryIntoSession(chatId, session);
-  }
-  
+  return new OpenAIClient(entryId, catalogId, listeners, elviraClient, userId);
+}
+
+/**
+ * Adds a built session to the active sessions
+ */
+function registerSession(chatId: string, session: OpenAIClient): void {
+  // Make room before adding, so the cap holds
+  enforceMaxSessions(chatId);
+
   chatSessions[chatId] = session;
+  sessionLastActivity[chatId] = Date.now();
+  evictedSessions.delete(chatId);
+}
 
-  return session;
+/**
+ * Saves a snapshot of the session to the session store
+ * Called after every turn so the session can be restored after eviction or by another replica
+ */
+export async function persistSession(chatId: string): Promise<void> {
+  const session = chatSessions[chatId];
+  if (!session) return;
+
+  try {
+    await getSessionStore().save({
+      chatId,
+      userId: session.userId,
+      entryId: session.getEntryId(),
+      catalogId: session.getCatalogId(),
+      chatHistory: session.getChatHistory(),
+      entryCatalogs: session.entries.toJSON(),
+      queueOffset: messagesQueues[chatId]?.length ?? 0,
+    });
+  } catch (err) {
+    console.error(`Failed to persist session ${chatId}:`, err);
+  }
+}
+
+/**
+ * Replaces tool outputs longer than maxChars with a placeholder, 0 keeps them all
+ */
+function dropBulkyToolOutputs(items: ResponseInputItem[], maxChars: number): ResponseInputItem[] {
+  if (maxChars <= 0) {
+    return items;
+  }
+  return items.map((item) => {
+    if (item.type !== 'function_call_output' || typeof item.output !== 'string' || item.output.length <= maxChars) {
+      return item;
+    }
+    return { ...item, output: JSON.stringify({ omitted: true, note: 'Tool output was not kept, call the tool again if you need it' }) };
+  });
+}
+
+/**
+ * Stores the OpenAI items of the session's last turn under the user message that started it
+ * Resumed chats replay them instead of rebuilding the turn from message texts
+ */
+export async function persistTurnItems(chatId: string, messageId: string): Promise<void> {
+  const session = chatSessions[chatId];
+  const config = getHistoryReplayConfig();
+  if (!session || !config.enabled) return;
+
+  const items = session.getLastTurnItems();
+  if (items.length === 0) return;
+
+  try {
+    await saveTurnItems(chatId, messageId, dropBulkyToolOutputs(items, config.toolOutputMaxChars));
+  } catch (err) {
+    console.error(`Failed to persist turn items of chat ${chatId}:`, err);
+  }
 }
 
 /**
  * Retrieves an existing chat session by ID
+ * Counts as activity for idle eviction
  */
 export function getSession(chatId: string): OpenAIClient | undefined {
-  return chatSessions[chatId];
+  const session = chatSessions[chatId];
+  if (session) {
+    sessionLastActivity[chatId] = Date.now();
+  }
+  return session;
 }
 
 /**
@@ -94,14 +223,216 @@ export function hasSession(chatId: string): boolean {
  */
 export async function removeSession(chatId: string): Promise<void> {
   delete chatSessions[chatId];
+  delete sessionLastActivity[chatId];
+  evictedSessions.delete(chatId);
+  messagesQueues[chatId]?.close();
   delete messagesQueues[chatId];
+  await getSessionStore().delete(chatId);
   await clearChatHistory(chatId);
 }
 
+/**
+ * Keeps the context of an evicted session, a forgotten chat is still found through getChatsByUser
+ */
+function rememberEvictedSession(chatId: string, context: EvictedSessionContext): void {
+  const { evictedMaxEntries } = getSessionConfig();
+
+  evictedSessions.delete(chatId);
+  evictedSessions.set(chatId, context);
+  while (evictedSessions.size > evictedMaxEntries) {
+    evictedSessions.delete(evictedSessions.keys().next().value as string);
+  }
+}
+
+/**
+ * Drops an in-memory session without touching its persisted history
+ * The session can be rebuilt later with rehydrateSession
+ */
+function evictSession(chatId: string): void {
+  const session = chatSessions[chatId];
+  if (!session) return;
+
+  rememberEvictedSession(chatId, {
+    userId: session.userId,
+    entryId: session.getEntryId(),
+    catalogId: session.getCatalogId(),
+  });
+
+  delete chatSessions[chatId];
+  delete sessionLastActivity[chatId];
+  messagesQueues[chatId]?.close();
+  delete messagesQueues[chatId];
+}
+
+/**
+ * A session in the middle of a turn must not be evicted
+ */
+function isSessionBusy(chatId: string): boolean {
+  return isTurnLocked(chatId) || (messagesQueues[chatId]?.isTurnActive() ?? false);
+}
+
+/**
+ * Evicts least recently used idle sessions until there is room for the incoming one
+ * A session registered again (e.g. reloaded from the store) replaces itself and needs no room
+ */
+function enforceMaxSessions(incomingChatId: string): void {
+  const { maxActiveSessions } = getSessionConfig();
+  if (incomingChatId in chatSessions) {
+    return;
+  }
+
+  const candidates = Object.keys(chatSessions)
+    .filter((chatId) => chatId !== incomingChatId && !isSessionBusy(chatId))
+    .sort((a, b) => sessionLastActivity[a] - sessionLastActivity[b]);
+
+  let excess = Object.keys(chatSessions).length - maxActiveSessions + 1;
+  for (const chatId of candidates) {
+    if (excess <= 0) break;
+    console.log(`Evicting least recently used session ${chatId}`);
+    evictSession(chatId);
+    excess--;
+  }
+}
+
+/**
+ * Evicts sessions that have been idle longer than the configured TTL
+ * Returns the evicted chat IDs
+ */
+export function evictIdleSessions(): string[] {
+  const { idleTtlMinutes } = getSessionConfig();
+  const cutoff = Date.now() - idleTtlMinutes * 60 * 1000;
+  const evicted: string[] = [];
+
+  for (const chatId of Object.keys(chatSessions)) {
+    if (sessionLastActivity[chatId] < cutoff && !isSessionBusy(chatId)) {
+      evictSession(chatId);
+      evicted.push(chatId);
+    }
+  }
+
+  if (evicted.length > 0) {
+    console.log(`Evicted ${evicted.length} idle session(s)`);
+  }
+  return evicted;
+}
+
+/**
+ * Starts the periodic idle session eviction
+ */
+export function startSessionEviction(): void {
+  if (evictionTimer) return;
+
+  const { evictionIntervalSeconds } = getSessionConfig();
+  evictionTimer = setInterval(evictIdleSessions, evictionIntervalSeconds * 1000);
+  // Don't keep the process alive just for eviction
+  evictionTimer.unref();
+}
+
+/**
+ * Stops the periodic idle session eviction
+ */
+export function stopSessionEviction(): void {
+  if (evictionTimer) {
+    clearInterval(evictionTimer);
+    evictionTimer = null;
+  }
+}
+
+/**
+ * Rebuilds a session that is not in memory for the (already authenticated) user
+ * Covers sessions evicted while idle, chats from before a server restart and,
+ * with a shared session store, chats served by another replica
+ * Returns undefined if the chat is not stored for the user, store failures are thrown
+ */
+export async function rehydrateSession(chatId: string, elviraClient: ElviraClient, user: User): Promise<OpenAIClient | undefined> {
+  const state = await getSessionStore().load(chatId);
+  const context = state ?? evictedSessions.get(chatId);
+
+  if (context) {
+    if (user.id !== context.userId) return undefined;
+  } else {
+    // Unknown to this process - resume only if the chat is stored for this user
+    const userChats = await getChatsByUser(user.id);
+    if (!userChats.some((chat) => chat.chatId === chatId)) return undefined;
+  }
+
+  if (state) {
+    console.log(`Restoring chat session ${chatId} from session store`);
+    return restoreSession(state, elviraClient);
+  }
+
+  console.log(`Rehydrating chat session ${chatId} for user ${user.id}`);
+  return createSession(chatId, context?.entryId ?? null, context?.catalogId ?? null, elviraClient, user.id, true);
+}
+
+/**
+ * Takes the per-chat turn lock, with SESSION_STORE=database also the lock shared by all replicas
+ * Returns false if another turn is already being processed for this chat
+ */
+export async function acquireTurnLock(chatId: string): Promise<boolean> {
+  if (turnLocks.has(chatId)) {
+    return false;
+  }
+  turnLocks.add(chatId);
+
+  try {
+    if (await getSessionStore().acquireLock(chatId)) {
+      return true;
+    }
+  } catch (err) {
+    turnLocks.delete(chatId);
+    throw err;
+  }
+  turnLocks.delete(chatId);
+  return false;
+}
+
+/**
+ * Releases the per-chat turn lock
+ */
+export async function releaseTurnLock(chatId: string): Promise<void> {
+  try {
+    await getSessionStore().releaseLock(chatId);
+  } catch (err) {
+    console.error(`Failed to release turn lock of chat ${chatId}:`, err);
+  } finally {
+    turnLocks.delete(chatId);
+  }
+}
+
+/**
+ * Replaces the in-memory session with the stored snapshot if another replica has run a turn since
+ * Every turn moves the queue offset on, so a higher stored offset means the memory copy is stale
+ * Call with the turn lock held, returns the session to use
+ */
+export async function syncSessionWithStore(chatId: string): Promise<OpenAIClient | undefined> {
+  const session = chatSessions[chatId];
+  if (!session || getSessionConfig().store !== 'database') {
+    return session;
+  }
+
+  const state = await getSessionStore().load(chatId);
+  if (!state || state.queueOffset <= getMessageQueueLength(chatId)) {
+    return session;
+  }
+
+  console.log(`Chat session ${chatId} was updated by another replica, restoring it from session store`);
+  // The restored session gets a new queue, streams following the old one are ended
+  messagesQueues[chatId]?.close({ type: 'error', data: 'Chat session was reloaded, reconnect to follow it' });
+  return restoreSession(state, session.elviraClient);
+}
+
+/**
+ * Checks whether a turn is being processed for a chat
+ */
+export function isTurnLocked(chatId: string): boolean {
+  return turnLocks.has(chatId);
+}
+
 /**
  * Gets the message queue for a chat session
  */
-export function getMessageQueue(chatId: string): MessageQueueItem[] | undefined {
+export function getMessageQueue(chatId: string): MessageQueue | undefined {
   return messagesQueues[chatId];
 }
 
@@ -116,7 +447,7 @@ export function getMessageQueueLength(chatId: string): number {
  * Gets message from queue at specific index
  */
 export function getMessageAtIndex(chatId: string, index: number): MessageQueueItem | undefined {
-  return messagesQueues[chatId]?.[index];
+  return messagesQueues[chatId]?.at(index);
 }
 
 /**
@@ -159,6 +490,20 @@ export function getActiveSessionCount(): number {
   return Object.keys(chatSessions).length;
 }
 
+/**
+ * Remembers the catalogs of entries in replayed getEntries outputs
+ */
+function rememberToolOutputEntries(session: OpenAIClient, items: ResponseInputItem[]): void {
+  for (const item of items) {
+    if (item.type !== 'function_call_output' || typeof item.output !== 'string') continue;
+    try {
+      session.entries.rememberEntries(JSON.parse(item.output));
+    } catch (err) {
+      // Not JSON, no entries to remember
+    }
+  }
+}
+
 /**
  * Loads chat history from database into an OpenAI session
  * Converts database messages to OpenAI's ResponseInput format
@@ -167,13 +512,23 @@ export function getActiveSessionCount(): number {
 async function loadChatHistoryIntoSession(chatId: string, session: OpenAIClient): Promise<void> {
   try {
     const messages = await getFullChatHistory(chatId);
+    const turns = new Map((await getTurnItems(chatId)).map((turn) => [turn.messageId, turn.items]));
     
     // Convert database messages to OpenAI format
     const chatHistory = session.getChatHistory();
+    // Whether the agent messages being processed belong to a turn replayed from its stored items
+    let replayingTurn = false;
     
     // Process messages in conversation order
     for (const msg of messages) {
-      if (msg.sender === 'user') {
+      if (msg.sender === 'user' && turns.has(msg.id)) {
+        // Stored turns are replayed exactly, including tool calls and their outputs
+        const items = turns.get(msg.id)!;
+        chatHistory.push(...items);
+        rememberToolOutputEntries(session, items);
+        replayingTurn = true;
+      } else if (msg.sender === 'user') {
+        replayingTurn = false;
         // Add user messages in the standard input format
         chatHistory.push({
           role: 'user',
@@ -184,6 +539,17 @@ async function loadChatHistoryIntoSession(chatId: string, session: OpenAIClient)
             }
           ]
         });
+      } else if (msg.sender === 'system') {
+        // Context switch notes, as the model saw them before the following turn
+        chatHistory.push({ role: 'system', content: msg.text });
+      } else if (msg.sender === 'agent' && replayingTurn) {
+        // The answer is already part of the replayed items, only the displayed books are needed
+        if (msg.bookIds && msg.bookIds.length > 0) {
+          if (msg.bookCatalogs) {
+            session.entries.rememberAll(msg.bookCatalogs);
+          }
+          messagesQueues[chatId].push({ type: 'entries', data: msg.bookIds, bookCatalogs: msg.bookCatalogs });
+        }
       } else if (msg.sender === 'agent') {
         let messageId = msg.msg_id;
         if (!messageId || !messageId.startsWith('msg_')) {
@@ -191,15 +557,12 @@ async function loadChatHistoryIntoSession(chatId: string, session: OpenAIClient)
         }
         
         let messageText = msg.text;
-        if (msg.bookIds && msg.bookIds.length > 0 && msg.bookCatalogs) {
-          const hasCatalogInfo = messageText.includes('[Book Catalogs:');
-          if (!hasCatalogInfo) {
-            const catalogInfo = JSON.stringify(msg.bookCatalogs);
-            if (messageText.includes('[Displayed')) {
-              messageText = `${messageText} [Book Catalogs: ${catalogInfo}]`;
-            } else {
-              messageText = `${messageText}\n\n[Displayed ${msg.bookIds.length} book(s) with IDs: ${msg.bookIds.join(', ')}] [Book Catalogs: ${catalogInfo}]`;
-            }
+        if (msg.bookIds && msg.bookIds.length > 0) {
+          if (!messageText.includes('[Displayed')) {
+            messageText = `${messageText}\n\n[Displayed ${msg.bookIds.length} book(s) with IDs: ${msg.bookIds.join(', ')}]`;
+          }
+          if (msg.bookCatalogs) {
+            session.entries.rememberAll(msg.bookCatalogs);
           }
         }
         
@@ -228,6 +591,20 @@ async function loadChatHistoryIntoSession(chatId: string, session: OpenAIClient)
   }
 }
 
+/**
+ * Replaces the in-memory history of a session with the active messages stored in the database
+ * Used when the history can't be truncated in place, e.g. after a restore that dropped tool items
+ */
+export async function reloadSessionHistory(chatId: string): Promise<void> {
+  const session = chatSessions[chatId];
+  if (!session) {
+    return;
+  }
+
+  session.getChatHistory().length = 0;
+  await loadChatHistoryIntoSession(chatId, session);
+}
+
 /**
  * Resumes an existing chat session by loading its history from the database
  * Creates a new in-memory session with the chat history restored
@@ -247,6 +624,74 @@ export async function resumeSession(
     return getSession(chatId)!;
   }
   
+  // Prefer the stored snapshot, it has the exact history the model saw
+  const state = await getSessionStore().load(chatId);
+  if (state && state.userId === userId) {
+    console.log(`Restoring chat session ${chatId} from session store`);
+    return restoreSession({
+      ...state,
+      entryId: entryId ?? state.entryId,
+      catalogId: catalogId ?? state.catalogId,
+    }, elviraClient);
+  }
+
   // Create new session with history loaded from database
   return await createSession(chatId, entryId, catalogId, elviraClient, userId, true);
 }
+
+/**
+ * Forks a chat into a new chat (chatId) with a copy of its active history up to (and including) the given message
+ * Copies the whole history if no message is given
+ * Returns null if the message is not part of the chat's active history
+ */
+export async function forkSession(
+  sourceChatId: string,
+  chatId: string,
+  upToMessageId: string | null,
+  entryId: string | null,
+  catalogId: string | null,
+  elviraClient: ElviraClient,
+  userId: string
+): Promise<{ copiedMessages: number } | null> {
+  const messages = await getFullChatHistory(sourceChatId);
+
+  let copyCount = messages.length;
+  if (upToMessageId) {
+    const index = messages.findIndex((m) => m.id === upToMessageId);
+    if (index === -1) {
+      return null;
+    }
+    copyCount = index + 1;
+  }
+
+  const chat = await createChat(chatId, userId);
+  if (!chat) {
+    console.error(`Failed to create forked chat ${chatId} in database for user ${userId}`);
+  }
+
+  const turns = new Map((await getTurnItems(sourceChatId)).map((turn) => [turn.messageId, turn.items]));
+
+  // Tokens stay counted on the source chat only
+  for (const [index, msg] of messages.slice(0, copyCount).entries()) {
+    const copy = await logMessage(chatId, msg.sender, msg.text, {
+      entryId: msg.entryId,
+      msg_id: msg.msg_id,
+      userId: msg.userId,
+      bookIds: msg.bookIds,
+      bookCatalogs: msg.bookCatalogs
+    });
+
+    // Only whole turns keep their items, a fork inside a turn falls back to the message texts
+    const items = msg.sender === 'user' ? turns.get(msg.id) : undefined;
+    const nextIndex = messages.findIndex((m, i) => i > index && m.sender !== 'agent');
+    const turnEnd = nextIndex === -1 ? messages.length : nextIndex;
+    if (copy && items && turnEnd <= copyCount) {
+      await saveTurnItems(chatId, copy.id, items);
+    }
+  }
+
+  console.log(`Forked chat ${sourceChatId} into ${chatId} with ${copyCount} messages`);
+  await createSession(chatId, entryId, catalogId, elviraClient, userId, true);
+
+  return { copiedMessages: copyCount };
+}
@@ -0,0 +1,102 @@
+/**
+ * Session Store
+ * Keeps snapshots of chat session state outside of the live OpenAIClient,
+ * so a session can be rebuilt after eviction or by another replica
+ */
+import { v4 as uuidv4 } from 'uuid';
+import { getDatabaseAdapter, ChatSessionState } from '../database';
+import { getSessionConfig } from '../database/config';
+
+export type SessionStoreType = 'memory' | 'database';
+
+export interface SessionStore {
+  load(chatId: string): Promise<ChatSessionState | null>;
+  save(state: ChatSessionState): Promise<void>;
+  delete(chatId: string): Promise<void>;
+  // Turn lock across the processes sharing the store, on top of the per-process lock
+  acquireLock(chatId: string): Promise<boolean>;
+  releaseLock(chatId: string): Promise<void>;
+}
+
+/**
+ * Process-local store, only survives eviction - not restarts or other replicas
+ * Bounded, least recently saved snapshots are dropped first
+ * Snapshots are kept serialized, detached from the live session and smaller than the item objects
+ */
+export class InMemorySessionStore implements SessionStore {
+  private states = new Map<string, string>();
+
+  constructor(private maxEntries: number) {}
+
+  async load(chatId: string): Promise<ChatSessionState | null> {
+    const state = this.states.get(chatId);
+    return state ? JSON.parse(state) : null;
+  }
+
+  async save(state: ChatSessionState): Promise<void> {
+    // Re-insert so the Map keeps snapshots ordered by last save
+    this.states.delete(state.chatId);
+    this.states.set(state.chatId, JSON.stringify({ ...state, updatedAt: new Date().toISOString() }));
+
+    while (this.states.size > this.maxEntries) {
+      const oldest = this.states.keys().next().value as string;
+      this.states.delete(oldest);
+    }
+  }
+
+  async delete(chatId: string): Promise<void> {
+    this.states.delete(chatId);
+  }
+
+  // Nothing else shares this store, the per-process lock is enough
+  async acquireLock(chatId: string): Promise<boolean> {
+    return true;
+  }
+
+  async releaseLock(chatId: string): Promise<void> {}
+}
+
+/**
+ * Shared store persisted through the DatabaseAdapter
+ * With postgres storage any replica can load any chat's session
+ */
+export class DatabaseSessionStore implements SessionStore {
+  // Identifies this process as the lock owner
+  private lockOwner = uuidv4();
+
+  async load(chatId: string): Promise<ChatSessionState | null> {
+    return getDatabaseAdapter().getSessionState(chatId);
+  }
+
+  async save(state: ChatSessionState): Promise<void> {
+    await getDatabaseAdapter().saveSessionState(state);
+  }
+
+  async delete(chatId: string): Promise<void> {
+    await getDatabaseAdapter().deleteSessionState(chatId);
+  }
+
+  async acquireLock(chatId: string): Promise<boolean> {
+    const { turnLockTtlSeconds } = getSessionConfig();
+    return getDatabaseAdapter().acquireChatLock(chatId, this.lockOwner, turnLockTtlSeconds * 1000);
+  }
+
+  async releaseLock(chatId: string): Promise<void> {
+    await getDatabaseAdapter().releaseChatLock(chatId, this.lockOwner);
+  }
+}
+
+let sessionStore: SessionStore | null = null;
+
+/**
+ * Get the configured session store (SESSION_STORE=memory|database)
+ */
+export function getSessionStore(): SessionStore {
+  if (!sessionStore) {
+    const config = getSessionConfig();
+    sessionStore = config.store === 'database'
+      ? new DatabaseSessionStore()
+      : new InMemorySessionStore(config.memoryStoreMaxEntries);
+  }
+  return sessionStore;
+}
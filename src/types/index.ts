@@ -13,12 +13,35 @@ export interface AdminRequest extends AuthenticatedRequest {
   adminUser?: User;
 }
 
+// Tool call progress, sent with tool_call_started / tool_call_finished items
+export interface ToolCallInfo {
+  callId: string;
+  name: string;
+  arguments: Record<string, any>; // Sanitized - nulls dropped, long strings truncated
+  durationMs?: number; // finished only
+  success?: boolean; // finished only
+  resultCount?: number; // finished only, number of entries/books returned
+}
+
+export type ToolCallEventType = 'tool_call_started' | 'tool_call_finished';
+
+// Token usage of a turn and the remaining daily quota, sent before done
+export interface UsageInfo {
+  model: string;
+  tokensUsed: number;
+  remainingMessages: number;
+  remainingTokens: number;
+  resetAt: string;
+}
+
 // Message queue item types
 export interface MessageQueueItem {
-  type: 'message' | 'entries' | 'chunk' | 'error' | 'done';
-  data: string | string[];
+  type: 'message' | 'entries' | 'chunk' | 'error' | 'warning' | 'done' | 'cancelled' | ToolCallEventType | 'usage';
+  data?: string | string[];
   msg_id?: string;
   bookCatalogs?: Record<string, string>; // Map of bookId -> catalogId
+  tool?: ToolCallInfo;
+  usage?: UsageInfo;
 }
 
 // Chat session listeners
@@ -26,6 +49,8 @@ export interface ChatSessionListeners {
   messageListener: (message: string, msg_id?: string) => void;
   displayBooksListener: (bookIds: string[], bookCatalogs?: Record<string, string>) => void;
   chunkListener: (msg_id: string, chunk: string) => void;
+  toolCallListener: (type: ToolCallEventType, toolCall: ToolCallInfo) => void;
+  warningListener: (message: string) => void;
 }
 
 // Entry filtering options
@@ -41,10 +66,11 @@ export interface EntryFilterOptions {
   query?: string;
 }
 
-// Entry query parameters
+// Entry query parameters, without catalogId entries of all catalogs are returned
 export interface EntryQueryParams {
-  page: number;
-  limit: number;
+  catalogId?: string | null;
+  page?: number;
+  limit?: number;
   filters?: EntryFilterOptions;
 }
 